@@ -11,8 +11,10 @@ import {
   createAutomationSchema,
   updateAutomationSchema,
   executeAutomationSchema,
-  testAutomationSchema
+  testAutomationSchema,
+  backfillAutomationSchema
 } from '../validation';
+import { BACKFILL_TRIGGER_TYPES } from '../../engine/trigger-manager';
 import { logger } from '../../utils/logger';
 
 export function createAutomationsRouter(prisma: PrismaClient, executor: AutomationExecutor): Router {
@@ -235,5 +237,62 @@ export function createAutomationsRouter(prisma: PrismaClient, executor: Automati
     }
   });
 
+  // ---- BACKFILL automation from item history ----
+  router.post('/:id/backfill', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const parsed = backfillAutomationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { code: 'BAD_REQUEST', message: 'Validation failed', details: parsed.error.issues }
+        });
+      }
+
+      const automation = await prisma.automation.findUnique({ where: { id: req.params.id as string } });
+      if (!automation) {
+        return res.status(404).json({ error: { code: 'NOT_FOUND', message: 'Automation not found' } });
+      }
+
+      const triggerType = (automation.trigger as any)?.type;
+      if (!BACKFILL_TRIGGER_TYPES.includes(triggerType)) {
+        return res.status(400).json({
+          error: { code: 'UNSUPPORTED_TRIGGER', message: `Trigger type ${triggerType} cannot be backfilled` }
+        });
+      }
+
+      const from = new Date(parsed.data.from);
+      const to = parsed.data.to ? new Date(parsed.data.to) : new Date();
+      if (from >= to) {
+        return res.status(400).json({ error: { code: 'BAD_REQUEST', message: '"from" must be before "to"' } });
+      }
+
+      const options = { from, to, limit: parsed.data.limit };
+
+      if (parsed.data.dryRun) {
+        const result = await executor.previewBackfill(automation.id, options);
+        return res.json({
+          dryRun: true,
+          from: from.toISOString(),
+          to: to.toISOString(),
+          eventCount: result.events.length,
+          truncated: result.truncated,
+          events: result.events,
+        });
+      }
+
+      // History is read and executions queued in the background; they are
+      // listed with backfill=true as they are created
+      await executor.startBackfill(automation.id, options);
+      res.status(202).json({
+        dryRun: false,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        executions: `/api/executions?automationId=${automation.id}&backfill=true`,
+      });
+    } catch (err: any) {
+      logger.error(`Backfill automation error: ${err.message}`);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: err.message } });
+    }
+  });
+
   return router;
 }
@@ -0,0 +1,88 @@
+// =============================================================================
+// Webhook Deliveries REST API Routes
+// Inspect inbound webhook deliveries, including ones that were skipped
+// =============================================================================
+
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../../utils/logger';
+
+export function createDeliveriesRouter(prisma: PrismaClient): Router {
+  const router = Router();
+
+  // ---- LIST deliveries ----
+  router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const {
+        automationId,
+        status,
+        path,
+        page = '1',
+        limit = '25',
+      } = req.query;
+
+      const pageNum = Math.max(1, parseInt(page as string, 10));
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit as string, 10)));
+      const skip = (pageNum - 1) * limitNum;
+
+      const where: any = {};
+      if (automationId) where.automationId = automationId;
+      if (status) where.status = status;
+      if (path !== undefined) where.path = path;
+
+      const [data, total] = await Promise.all([
+        prisma.webhookDelivery.findMany({
+          where,
+          orderBy: { receivedAt: 'desc' },
+          skip,
+          take: limitNum,
+          include: {
+            automation: {
+              select: { id: true, name: true, workspaceId: true },
+            },
+          },
+        }),
+        prisma.webhookDelivery.count({ where }),
+      ]);
+
+      res.json({
+        data,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      });
+    } catch (err: any) {
+      logger.error(`List webhook deliveries error: ${err.message}`);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: err.message } });
+    }
+  });
+
+  // ---- GET delivery details ----
+  router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const delivery = await prisma.webhookDelivery.findUnique({
+        where: { id: req.params.id as string },
+        include: {
+          automation: {
+            select: { id: true, name: true, workspaceId: true, trigger: true },
+          },
+        },
+      });
+
+      if (!delivery) {
+        return res.status(404).json({ error: { code: 'NOT_FOUND', message: 'Webhook delivery not found' } });
+      }
+
+      res.json(delivery);
+    } catch (err: any) {
+      logger.error(`Get webhook delivery error: ${err.message}`);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: err.message } });
+    }
+  });
+
+  return router;
+}
@@ -17,6 +17,7 @@ export function createExecutionsRouter(prisma: PrismaClient): Router {
       const {
         automationId,
         status,
+        backfill,
         page = '1',
         limit = '25',
       } = req.query;
@@ -28,6 +29,7 @@ export function createExecutionsRouter(prisma: PrismaClient): Router {
       const where: any = {};
       if (automationId) where.automationId = automationId;
       if (status) where.status = status;
+      if (backfill !== undefined) where.backfill = backfill === 'true';
 
       const [data, total] = await Promise.all([
         prisma.execution.findMany({
@@ -1,30 +1,134 @@
 // =============================================================================
 // Webhook Routes
-// Inbound webhook receiver for external triggers and future ONSTAQ events
+// Inbound webhook receiver for external triggers and ONSTAQ native events
 // =============================================================================
 
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { AutomationExecutor } from '../../engine/executor';
-import { AutomationRule, WebhookReceivedTrigger } from '../../engine/types';
+import { AutomationExecutor, ExecutionOutcome } from '../../engine/executor';
+import { AutomationRule, WebhookReceivedTrigger, WebhookRequest } from '../../engine/types';
+import { OnstaqEvent } from '../../onstaq/types';
+import { onstaqEventSchema } from '../validation';
+import { claimNonce, verifyHmac, verifyWebhookSignature } from '../webhook-signature';
+import { ParsedWebhookBody, parseWebhookBody } from '../webhook-body';
 import { logger } from '../../utils/logger';
-import crypto from 'crypto';
 
-export function createWebhooksRouter(prisma: PrismaClient, executor: AutomationExecutor): Router {
+export interface WebhooksRouterOptions {
+  onstaqWebhookSecret?: string;
+}
+
+const DEFAULT_RESPONSE_TIMEOUT_MS = 10000;
+
+// Never copied into trigger data, which is persisted with each execution
+const REDACTED_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie']);
+
+/**
+ * Flatten request headers for trigger.webhook.headers, dropping credentials.
+ */
+function toWebhookHeaders(headers: Request['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || REDACTED_HEADERS.has(name)) continue;
+    result[name] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return result;
+}
+
+// Largest body copied into trigger.webhook.rawBody
+const MAX_RAW_BODY_BYTES = 64 * 1024;
+
+/**
+ * Body text for trigger.webhook.rawBody. Only small text bodies are kept:
+ * multipart uploads and binary content would bloat every execution record.
+ */
+function toWebhookRawBody(body: ParsedWebhookBody): string | undefined {
+  const mediaType = body.contentType.split(';')[0].trim().toLowerCase();
+  const isText = mediaType.startsWith('text/')
+    || mediaType === 'application/json' || mediaType.endsWith('+json')
+    || mediaType === 'application/xml' || mediaType.endsWith('+xml')
+    || mediaType === 'application/x-www-form-urlencoded';
+
+  if (!isText || body.rawBody.length > MAX_RAW_BODY_BYTES) return undefined;
+  return body.rawBody.toString('utf8');
+}
+
+interface DeliveryRecord {
+  automationId?: string;
+  path: string;
+  status: 'TRIGGERED' | 'SKIPPED' | 'ERROR' | 'UNMATCHED';
+  reason?: string;
+  executionId?: string;
+  headers: Record<string, string>;
+  payload?: any;
+}
+
+/**
+ * Resolve with the execution outcome, or undefined once the timeout passes.
+ * The execution itself keeps running either way.
+ */
+async function waitForCompletion(
+  completion: Promise<ExecutionOutcome>,
+  timeoutMs: number
+): Promise<ExecutionOutcome | undefined> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<undefined>((resolve) => {
+    timer = setTimeout(() => resolve(undefined), timeoutMs);
+  });
+  try {
+    return await Promise.race([completion, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Append to the webhook delivery log. Logging never fails the delivery itself.
+ */
+async function recordDeliveries(prisma: PrismaClient, deliveries: DeliveryRecord[]): Promise<void> {
+  try {
+    await prisma.webhookDelivery.createMany({ data: deliveries });
+  } catch (err: any) {
+    logger.error(`Failed to record webhook deliveries: ${err.message}`);
+  }
+}
+
+export function createWebhooksRouter(
+  prisma: PrismaClient,
+  executor: AutomationExecutor,
+  options: WebhooksRouterOptions = {}
+): Router {
   const router = Router();
 
   // ---- Generic inbound webhook ----
   // POST /api/webhooks/inbound/:path?
   router.post('/inbound/:path?', async (req: Request, res: Response) => {
     try {
-      const path = req.params.path || '';
-      const payload = req.body;
+      const path = (req.params.path as string) || '';
+      let body: ParsedWebhookBody;
+      try {
+        body = parseWebhookBody(req);
+      } catch (err: any) {
+        return res.status(400).json({
+          error: { code: 'BAD_REQUEST', message: `Could not parse ${req.headers['content-type']} body: ${err.message}` }
+        });
+      }
+
+      const { payload, rawBody } = body;
+      const webhookRequest: WebhookRequest = {
+        path,
+        method: req.method,
+        headers: toWebhookHeaders(req.headers),
+        query: req.query as Record<string, any>,
+        contentType: body.contentType,
+        rawBody: toWebhookRawBody(body),
+      };
 
       logger.info(`Webhook received on path: /inbound/${path}`);
 
       // Find automations with webhook.received triggers matching this path
       const automations = await prisma.automation.findMany({
         where: { enabled: true },
+        orderBy: { executionOrder: 'asc' },
       });
 
       const matching = automations.filter((a: any) => {
@@ -35,43 +139,42 @@ export function createWebhooksRouter(prisma: PrismaClient, executor: AutomationE
       });
 
       if (matching.length === 0) {
+        await recordDeliveries(prisma, [{ path, status: 'UNMATCHED', headers: webhookRequest.headers }]);
         return res.status(200).json({ message: 'No matching automations', processed: 0 });
       }
 
-      // Validate HMAC signatures if configured
       const results: any[] = [];
+      const deliveries: DeliveryRecord[] = [];
+      // The first triggered automation with respond: 'sync' answers the request
+      let responder: { trigger: WebhookReceivedTrigger; executionId: string; completion: Promise<ExecutionOutcome> } | undefined;
       for (const automation of matching) {
         const trigger = automation.trigger as unknown as WebhookReceivedTrigger;
+        const delivery: DeliveryRecord = {
+          automationId: automation.id,
+          path,
+          status: 'SKIPPED',
+          headers: webhookRequest.headers,
+        };
+        deliveries.push(delivery);
 
-        // HMAC validation
+        // HMAC validation over the bytes actually received. Unverified payloads are not stored.
         if (trigger.secret) {
-          const signature = req.headers['x-webhook-signature'] as string;
-          if (!signature) {
-            results.push({ automationId: automation.id, status: 'skipped', reason: 'Missing signature' });
-            continue;
-          }
-
-          const expected = crypto
-            .createHmac('sha256', trigger.secret)
-            .update(JSON.stringify(payload))
-            .digest('hex');
-
-          if (!crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
-            results.push({ automationId: automation.id, status: 'skipped', reason: 'Invalid signature' });
+          const check = verifyWebhookSignature(trigger.secret, trigger.signature, rawBody, req.headers);
+          if (!check.ok) {
+            delivery.reason = check.reason;
+            results.push({ automationId: automation.id, status: 'skipped', reason: check.reason });
             continue;
           }
-        }
 
-        // Filter check
-        if (trigger.filter) {
-          const matches = Object.entries(trigger.filter).every(([key, value]) => payload[key] === value);
-          if (!matches) {
-            results.push({ automationId: automation.id, status: 'skipped', reason: 'Filter mismatch' });
+          if (check.nonce && !(await claimNonce(prisma, automation.id, check.nonce, trigger.signature))) {
+            delivery.reason = 'Replayed delivery';
+            results.push({ automationId: automation.id, status: 'skipped', reason: 'Replayed delivery' });
             continue;
           }
         }
+        delivery.payload = payload;
 
-        // Execute
+        // Filter, item lookup and execution
         try {
           const rule: AutomationRule = {
             id: automation.id,
@@ -88,30 +191,91 @@ export function createWebhooksRouter(prisma: PrismaClient, executor: AutomationE
             updatedAt: automation.updatedAt.toISOString(),
           };
 
-          await executor.triggerManually(rule.id, payload);
-          results.push({ automationId: automation.id, status: 'triggered' });
+          const dispatch = await executor.handleWebhook(rule, payload, webhookRequest);
+          if (dispatch.status === 'skipped') {
+            delivery.reason = dispatch.reason;
+            results.push({ automationId: automation.id, status: 'skipped', reason: dispatch.reason });
+            continue;
+          }
+
+          delivery.status = 'TRIGGERED';
+          delivery.executionId = dispatch.executionId;
+          results.push({ automationId: automation.id, status: 'triggered', executionId: dispatch.executionId });
+
+          if (trigger.respond === 'sync' && !responder) {
+            responder = { trigger, executionId: dispatch.executionId, completion: dispatch.completion };
+          } else {
+            dispatch.completion.catch((err) =>
+              logger.error(`Webhook execution ${dispatch.executionId} failed: ${err.message}`)
+            );
+          }
         } catch (err: any) {
+          delivery.status = 'ERROR';
+          delivery.reason = err.message;
           results.push({ automationId: automation.id, status: 'error', error: err.message });
         }
       }
 
-      res.status(200).json({ processed: matching.length, results });
+      await recordDeliveries(prisma, deliveries);
+
+      if (responder) {
+        const timeoutMs = responder.trigger.responseTimeoutMs || DEFAULT_RESPONSE_TIMEOUT_MS;
+        const outcome = await waitForCompletion(responder.completion, timeoutMs);
+        if (!outcome) {
+          return res.status(504).json({
+            error: {
+              code: 'GATEWAY_TIMEOUT',
+              message: `Execution did not finish within ${timeoutMs}ms`,
+              executionId: responder.executionId,
+            },
+          });
+        }
+
+        const response = await executor.renderWebhookResponse(responder.trigger.response, outcome);
+        res.status(response.status).set(response.headers);
+        return typeof response.body === 'string' ? res.send(response.body) : res.json(response.body ?? null);
+      }
+
+      // Async: executions keep running; poll them via /api/executions/:id
+      const accepted = results.some((result) => result.status === 'triggered');
+      res.status(accepted ? 202 : 200).json({ processed: matching.length, results });
     } catch (err: any) {
       logger.error(`Webhook handler error: ${err.message}`);
       res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: err.message } });
     }
   });
 
-  // ---- Future: ONSTAQ native event webhook ----
-  // This endpoint will receive events directly from ONSTAQ when native events are added
+  // ---- ONSTAQ native event webhook ----
+  // Signed item events pushed by ONSTAQ. Workspaces that push events stop being polled.
   router.post('/onstaq', async (req: Request, res: Response) => {
     try {
-      const event = req.body;
-      logger.info(`ONSTAQ event received: ${event.type || 'unknown'}`);
+      if (!options.onstaqWebhookSecret) {
+        return res.status(503).json({
+          error: { code: 'NOT_CONFIGURED', message: 'ONSTAQ_WEBHOOK_SECRET is not set' }
+        });
+      }
+
+      const signature = req.headers['x-onstaq-signature'] as string | undefined;
+      const rawBody: Buffer = (req as any).rawBody || Buffer.from(JSON.stringify(req.body));
+      if (!signature || !verifyHmac(options.onstaqWebhookSecret, rawBody, signature)) {
+        return res.status(401).json({
+          error: { code: 'UNAUTHORIZED', message: 'Invalid or missing X-Onstaq-Signature' }
+        });
+      }
+
+      const parsed = onstaqEventSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: { code: 'BAD_REQUEST', message: 'Validation failed', details: parsed.error.issues }
+        });
+      }
+
+      const event = parsed.data as unknown as OnstaqEvent;
+      logger.info(`ONSTAQ event received: ${event.type} (${event.id}) for item ${event.item.key}`);
 
-      // TODO: When ONSTAQ adds native events, route them to matching automations
+      const dispatched = await executor.handleOnstaqEvent(event);
 
-      res.status(200).json({ received: true });
+      res.status(200).json({ received: true, dispatched });
     } catch (err: any) {
       logger.error(`ONSTAQ webhook error: ${err.message}`);
       res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: err.message } });
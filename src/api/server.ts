@@ -13,19 +13,32 @@ import { createAuthMiddleware } from './middleware/auth';
 import { createAutomationsRouter } from './routes/automations';
 import { createExecutionsRouter } from './routes/executions';
 import { createWebhooksRouter } from './routes/webhooks';
+import { RAW_WEBHOOK_TYPES } from './webhook-body';
+import { createDeliveriesRouter } from './routes/deliveries';
 import { logger } from '../utils/logger';
 
+export interface ApiServerOptions {
+  onstaqWebhookSecret?: string;  // HMAC secret for ONSTAQ native events
+}
+
 export function createApiServer(
   prisma: PrismaClient,
   onstaqClient: OnstaqClient,
-  executor: AutomationExecutor
+  executor: AutomationExecutor,
+  options: ApiServerOptions = {}
 ): express.Application {
   const app = express();
 
   // --- Global Middleware ---
   app.use(helmet());
   app.use(cors());
-  app.use(express.json({ limit: '10mb' }));
+  app.use(express.json({
+    limit: '10mb',
+    // Keep the exact bytes received so webhook signatures can be verified
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  }));
 
   // --- Health Check (public) ---
   app.get('/api/health', async (req, res) => {
@@ -58,28 +71,40 @@ export function createApiServer(
   });
 
   // --- Webhook routes (no auth — use HMAC signatures instead) ---
-  app.use('/api/webhooks', createWebhooksRouter(prisma, executor));
+  // Form, multipart, XML and text bodies arrive as raw bytes and are parsed by the route
+  app.use('/api/webhooks/inbound', express.raw({ type: RAW_WEBHOOK_TYPES, limit: '10mb' }));
+  app.use('/api/webhooks', createWebhooksRouter(prisma, executor, {
+    onstaqWebhookSecret: options.onstaqWebhookSecret,
+  }));
 
   // --- Authenticated routes ---
   const auth = createAuthMiddleware(onstaqClient);
 
   app.use('/api/automations', auth, createAutomationsRouter(prisma, executor));
   app.use('/api/executions', auth, createExecutionsRouter(prisma));
+  app.use('/api/webhook-deliveries', auth, createDeliveriesRouter(prisma));
 
   // --- Schema introspection endpoint (useful for MCP and clients) ---
   app.get('/api/schema/triggers', auth, (req, res) => {
     res.json({
       triggers: [
-        { type: 'item.created', description: 'Fires when a new item is created in a catalog', requiredFields: [], optionalFields: ['catalogId', 'catalogName'] },
-        { type: 'item.updated', description: 'Fires when an item is updated', requiredFields: [], optionalFields: ['catalogId', 'catalogName', 'attributes'] },
-        { type: 'item.deleted', description: 'Fires when an item is deleted', requiredFields: [], optionalFields: ['catalogId', 'catalogName'] },
-        { type: 'attribute.changed', description: 'Fires when a specific attribute changes value', requiredFields: ['attributeName'], optionalFields: ['catalogId', 'catalogName', 'from', 'to'] },
-        { type: 'status.changed', description: 'Fires when a STATUS attribute transitions', requiredFields: [], optionalFields: ['catalogId', 'catalogName', 'from', 'to'] },
-        { type: 'reference.added', description: 'Fires when a reference is added to an item', requiredFields: [], optionalFields: ['catalogId', 'catalogName', 'referenceKind'] },
-        { type: 'schedule', description: 'Fires on a cron schedule', requiredFields: ['cron'], optionalFields: ['timezone'] },
+        { type: 'item.created', description: 'Fires when a new item is created in a catalog', requiredFields: [], optionalFields: ['catalogId', 'catalogName', 'includeCatalogs', 'excludeCatalogs', 'debounceMs', 'batchWindowMs', 'ignoreOwnChanges', 'actorFilter', 'pollIntervalMs'] },
+        { type: 'item.updated', description: 'Fires when an item is updated', requiredFields: [], optionalFields: ['catalogId', 'catalogName', 'attributes', 'includeCatalogs', 'excludeCatalogs', 'debounceMs', 'batchWindowMs', 'ignoreOwnChanges', 'actorFilter', 'pollIntervalMs'] },
+        { type: 'item.deleted', description: 'Fires when an item is deleted', requiredFields: [], optionalFields: ['catalogId', 'catalogName', 'includeCatalogs', 'excludeCatalogs', 'debounceMs', 'batchWindowMs', 'ignoreOwnChanges', 'actorFilter', 'pollIntervalMs'] },
+        { type: 'attribute.changed', description: 'Fires when a specific attribute changes value', requiredFields: ['attributeName'], optionalFields: ['catalogId', 'catalogName', 'from', 'to', 'includeCatalogs', 'excludeCatalogs', 'debounceMs', 'batchWindowMs', 'ignoreOwnChanges', 'actorFilter', 'pollIntervalMs'] },
+        { type: 'status.changed', description: 'Fires when a STATUS attribute transitions', requiredFields: [], optionalFields: ['catalogId', 'catalogName', 'from', 'to', 'includeCatalogs', 'excludeCatalogs', 'debounceMs', 'batchWindowMs', 'ignoreOwnChanges', 'actorFilter', 'pollIntervalMs'] },
+        { type: 'reference.added', description: 'Fires when a reference is added to an item', requiredFields: [], optionalFields: ['catalogId', 'catalogName', 'referenceKind', 'includeCatalogs', 'excludeCatalogs', 'debounceMs', 'batchWindowMs', 'ignoreOwnChanges', 'actorFilter', 'pollIntervalMs'] },
+        { type: 'schedule', description: 'Fires on a cron schedule', requiredFields: ['cron'], optionalFields: ['timezone', 'misfirePolicy', 'misfireCap'] },
         { type: 'manual', description: 'Fires when manually triggered via API or MCP', requiredFields: [], optionalFields: ['parameters'] },
-        { type: 'oql.match', description: 'Fires when an OQL query matches results', requiredFields: ['query', 'triggerOn'], optionalFields: ['interval'] },
-        { type: 'webhook.received', description: 'Fires when an external webhook is received', requiredFields: [], optionalFields: ['path', 'secret', 'filter'] },
+        { type: 'oql.match', description: 'Fires when an OQL query matches results', requiredFields: ['query', 'triggerOn'], optionalFields: ['keyColumn', 'perRow', 'pollIntervalMs', 'interval'] },
+        { type: 'date.reached', description: 'Fires once per item when a DATE/DATETIME attribute plus an offset is reached', requiredFields: ['attributeName'], optionalFields: ['catalogId', 'catalogName', 'offset', 'pollIntervalMs'] },
+        { type: 'member.added', description: 'Fires when a user joins the workspace', requiredFields: [], optionalFields: ['role', 'pollIntervalMs'] },
+        { type: 'member.removed', description: 'Fires when a user leaves or is removed from the workspace', requiredFields: [], optionalFields: ['role', 'pollIntervalMs'] },
+        { type: 'member.role_changed', description: "Fires when a member's workspace role changes", requiredFields: [], optionalFields: ['from', 'to', 'pollIntervalMs'] },
+        { type: 'schema.catalog_created', description: 'Fires when a catalog is added to the workspace', requiredFields: [], optionalFields: ['pollIntervalMs'] },
+        { type: 'schema.attribute_added', description: 'Fires when an attribute is added to a catalog', requiredFields: [], optionalFields: ['catalogId', 'catalogName', 'pollIntervalMs'] },
+        { type: 'schema.attribute_changed', description: 'Fires when an attribute definition changes', requiredFields: [], optionalFields: ['catalogId', 'catalogName', 'attributeName', 'pollIntervalMs'] },
+        { type: 'webhook.received', description: 'Fires when an external webhook is received (JSON, form, multipart, XML or text body)', requiredFields: [], optionalFields: ['path', 'secret', 'signature', 'filter', 'conditions', 'itemKeyPath', 'itemIdPath', 'respond', 'responseTimeoutMs', 'response'] },
       ]
     });
   });
@@ -115,11 +140,19 @@ export function createApiServer(
         { type: 'oql', description: 'Run an OQL query — passes if results found' },
         { type: 'reference', description: 'Check if item has references' },
         { type: 'template', description: 'Evaluate a template expression as truthy/falsy' },
+        { type: 'json_path', description: 'Compare a JSONPath value in the webhook payload, headers or query' },
       ],
       logicalOperators: ['AND', 'OR', 'NOT'],
       templateVariables: [
         '{{trigger.item.id}}', '{{trigger.item.key}}', '{{trigger.item.attributes.AttributeName}}',
         '{{trigger.previous.AttributeName}}', '{{trigger.user.name}}', '{{trigger.timestamp}}',
+        '{{trigger.reference.targetItem.key}}', '{{trigger.reference.kind}}', '{{trigger.reference.label}}',
+        '{{trigger.status.from}}', '{{trigger.status.to}}',
+        '{{trigger.comment.body}}', '{{trigger.comment.user.name}}', '{{trigger.actor.name}}', '{{trigger.actor.email}}',
+        '{{trigger.member.name}}', '{{trigger.member.email}}', '{{trigger.member.workspaceRole}}', '{{trigger.previous.workspaceRole}}',
+        '{{trigger.schemaChange.catalog.name}}', '{{trigger.schemaChange.after.name}}', '{{trigger.schemaChange.changedFields}}',
+        '{{trigger.webhookPayload.field}}', "{{trigger.webhook.headers['x-header-name']}}", '{{trigger.webhook.query.param}}', '{{trigger.webhook.path}}', '{{trigger.webhook.rawBody}}', '{{trigger.webhook.contentType}}',
+        '{{#each trigger.items}}{{currentItem.key}}{{/each}}',
         '{{env.NOW}}', '{{env.TODAY}}', '{{context.variables.name}}',
         '{{oql:FROM Catalog WHERE ... SELECT COUNT(*)}}',
       ],
@@ -3,14 +3,30 @@
 // =============================================================================
 
 import { z } from 'zod';
+import { parseJsonPath } from '../engine/json-path';
 
 // --- Trigger Schemas ---
 
+const valueFilterSchema = z.union([z.string(), z.array(z.string()).min(1)]).optional();
+const pollIntervalSchema = z.number().int().positive().optional();
+
 const itemTriggerBase = z.object({
   catalogId: z.string().uuid().optional(),
   catalogName: z.string().optional(),
+  includeCatalogs: z.array(z.string()).optional(),
+  excludeCatalogs: z.array(z.string()).optional(),
+  debounceMs: z.number().int().positive().optional(),
+  batchWindowMs: z.number().int().positive().optional(),
+  ignoreOwnChanges: z.boolean().optional(),
+  actorFilter: z.object({
+    include: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+  }).optional(),
+  pollIntervalMs: pollIntervalSchema,
 });
 
+const workspaceRoleEnum = z.enum(['WORKSPACE_ADMIN', 'ITEM_EDITOR', 'ITEM_VIEWER']);
+
 const referenceKindEnum = z.enum(['DEPENDENCY', 'INSTALLED', 'LINK', 'OWNERSHIP', 'LOCATED_IN', 'CUSTOM']);
 
 const triggerSchema = z.discriminatedUnion('type', [
@@ -25,8 +41,8 @@ const triggerSchema = z.discriminatedUnion('type', [
     type: z.literal('attribute.changed'),
     ...itemTriggerBase.shape,
     attributeName: z.string(),
-    from: z.string().optional(),
-    to: z.string().optional(),
+    from: valueFilterSchema,
+    to: valueFilterSchema,
   }),
   z.object({
     type: z.literal('status.changed'),
@@ -57,6 +73,8 @@ const triggerSchema = z.discriminatedUnion('type', [
     type: z.literal('schedule'),
     cron: z.string().min(1),
     timezone: z.string().optional(),
+    misfirePolicy: z.enum(['skip', 'run_once', 'run_all']).optional(),
+    misfireCap: z.number().int().positive().optional(),
   }),
   z.object({
     type: z.literal('manual'),
@@ -73,30 +91,110 @@ const triggerSchema = z.discriminatedUnion('type', [
     type: z.literal('oql.match'),
     query: z.string().min(1),
     interval: z.number().positive().optional(),
-    triggerOn: z.enum(['new_results', 'count_change', 'any_results']),
+    pollIntervalMs: pollIntervalSchema,
+    triggerOn: z.enum(['new_results', 'count_change', 'any_results', 'rows_added', 'rows_removed']),
+    keyColumn: z.string().min(1).optional(),
+    perRow: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('date.reached'),
+    catalogId: z.string().uuid().optional(),
+    catalogName: z.string().optional(),
+    attributeName: z.string().min(1),
+    offset: z.string().regex(/^[+-]?\d+[mhdw]$/, 'Offset must look like -2d, +4h, 30m or 1w').optional(),
+    pollIntervalMs: pollIntervalSchema,
+  }),
+  z.object({
+    type: z.literal('member.added'),
+    role: workspaceRoleEnum.optional(),
+    pollIntervalMs: pollIntervalSchema,
+  }),
+  z.object({
+    type: z.literal('member.removed'),
+    role: workspaceRoleEnum.optional(),
+    pollIntervalMs: pollIntervalSchema,
+  }),
+  z.object({
+    type: z.literal('member.role_changed'),
+    from: workspaceRoleEnum.optional(),
+    to: workspaceRoleEnum.optional(),
+    pollIntervalMs: pollIntervalSchema,
+  }),
+  z.object({
+    type: z.literal('schema.catalog_created'),
+    pollIntervalMs: pollIntervalSchema,
+  }),
+  z.object({
+    type: z.literal('schema.attribute_added'),
+    catalogId: z.string().uuid().optional(),
+    catalogName: z.string().optional(),
+    pollIntervalMs: pollIntervalSchema,
+  }),
+  z.object({
+    type: z.literal('schema.attribute_changed'),
+    catalogId: z.string().uuid().optional(),
+    catalogName: z.string().optional(),
+    attributeName: z.string().optional(),
+    pollIntervalMs: pollIntervalSchema,
   }),
   z.object({
     type: z.literal('webhook.received'),
     path: z.string().optional(),
     secret: z.string().optional(),
+    signature: z.object({
+      scheme: z.enum(['hmac', 'github', 'stripe']).optional(),
+      header: z.string().min(1).optional(),
+      algorithm: z.enum(['sha1', 'sha256', 'sha512']).optional(),
+      encoding: z.enum(['hex', 'base64']).optional(),
+      prefix: z.string().optional(),
+      timestampHeader: z.string().min(1).optional(),
+      toleranceSeconds: z.number().int().positive().optional(),
+      nonceHeader: z.string().min(1).optional(),
+      nonceTtlSeconds: z.number().int().positive().optional(),
+    }).optional(),
     filter: z.record(z.any()).optional(),
+    conditions: z.lazy(() => conditionSchema).optional(),
+    itemKeyPath: z.string().min(1).refine(isValidJsonPath, 'Invalid JSONPath').optional(),
+    itemIdPath: z.string().min(1).refine(isValidJsonPath, 'Invalid JSONPath').optional(),
+    respond: z.enum(['sync', 'async']).optional(),
+    responseTimeoutMs: z.number().int().positive().max(60000).optional(),
+    response: z.object({
+      status: z.union([z.number().int().min(100).max(599), z.string().min(1)]).optional(),
+      headers: z.record(z.string()).optional(),
+      body: z.any().optional(),
+    }).optional(),
   }),
-]);
+]).refine(
+  // Refinements can't sit on a discriminated union member, so checked here
+  (trigger) => trigger.type !== 'date.reached' || !!(trigger.catalogId || trigger.catalogName),
+  { message: 'date.reached triggers need catalogId or catalogName', path: ['catalogId'] }
+);
 
 // --- Condition Schemas ---
 
+const conditionOperatorEnum = z.enum([
+  'equals', 'not_equals', 'contains', 'not_contains',
+  'starts_with', 'ends_with', 'greater_than', 'less_than',
+  'greater_than_or_equal', 'less_than_or_equal',
+  'in', 'not_in', 'is_null', 'is_not_null',
+  'changed_to', 'changed_from', 'matches_regex',
+]);
+
+function isValidJsonPath(path: string): boolean {
+  try {
+    parseJsonPath(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 const singleConditionSchema: z.ZodType<any> = z.lazy(() =>
   z.union([
     z.object({
       type: z.literal('attribute'),
       attribute: z.string(),
-      operator: z.enum([
-        'equals', 'not_equals', 'contains', 'not_contains',
-        'starts_with', 'ends_with', 'greater_than', 'less_than',
-        'greater_than_or_equal', 'less_than_or_equal',
-        'in', 'not_in', 'is_null', 'is_not_null',
-        'changed_to', 'changed_from', 'matches_regex',
-      ]),
+      operator: conditionOperatorEnum,
       value: z.any().optional(),
       from: z.any().optional(),
       to: z.any().optional(),
@@ -117,6 +215,13 @@ const singleConditionSchema: z.ZodType<any> = z.lazy(() =>
       type: z.literal('template'),
       expression: z.string().min(1),
     }),
+    z.object({
+      type: z.literal('json_path'),
+      source: z.enum(['payload', 'headers', 'query']).optional(),
+      path: z.string().min(1).refine(isValidJsonPath, 'Invalid JSONPath'),
+      operator: conditionOperatorEnum,
+      value: z.any().optional(),
+    }),
   ])
 );
 
@@ -156,7 +261,7 @@ const componentSchema: z.ZodType<any> = z.lazy(() =>
     action: actionSchema.optional(),
     condition: conditionSchema.optional(),
     branch: z.object({
-      type: z.enum(['related_items', 'created_items', 'lookup_items']),
+      type: z.enum(['related_items', 'created_items', 'lookup_items', 'trigger_items']),
       direction: z.enum(['outbound', 'inbound']).optional(),
       referenceKind: referenceKindEnum.optional(),
       catalogId: z.string().uuid().optional(),
@@ -202,5 +307,44 @@ export const testAutomationSchema = z.object({
   mockTriggerData: z.record(z.any()).optional(),
 });
 
+export const backfillAutomationSchema = z.object({
+  from: z.string().datetime({ offset: true }),
+  to: z.string().datetime({ offset: true }).optional(),
+  dryRun: z.boolean().default(false),
+  limit: z.number().int().positive().max(5000).default(500),
+});
+
+// --- ONSTAQ Native Event Schema ---
+
+export const onstaqEventSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['item.created', 'item.updated', 'item.deleted', 'item.linked', 'item.unlinked', 'item.commented']),
+  workspaceId: z.string().uuid(),
+  catalogId: z.string().uuid().optional(),
+  occurredAt: z.string(),
+  item: z.object({
+    id: z.string(),
+    key: z.string(),
+    catalogId: z.string(),
+    updatedAt: z.string().min(1), // Part of the dedup key for edits
+  }).passthrough(),
+  changes: z.record(z.object({ from: z.any(), to: z.any() })).optional(),
+  reference: z.object({
+    id: z.string(),
+    fromItemId: z.string(),
+    toItemId: z.string(),
+    referenceKind: referenceKindEnum,
+  }).passthrough().optional(),
+  comment: z.object({
+    id: z.string(),
+    body: z.string(),
+  }).passthrough().optional(),
+  user: z.object({
+    id: z.string(),
+    name: z.string(),
+    email: z.string(),
+  }).optional(),
+});
+
 export type CreateAutomationInput = z.infer<typeof createAutomationSchema>;
 export type UpdateAutomationInput = z.infer<typeof updateAutomationSchema>;
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { parseWebhookBody, parseXml } from './webhook-body';
+
+function request(contentType: string, body: string | Buffer | Record<string, any>, rawBody?: Buffer): any {
+  return {
+    headers: { 'content-type': contentType },
+    body: typeof body === 'string' ? Buffer.from(body) : body,
+    rawBody,
+  };
+}
+
+describe('parseWebhookBody', () => {
+  it('passes JSON through and keeps the bytes received', () => {
+    const raw = Buffer.from('{ "a": 1 }');
+    const parsed = parseWebhookBody(request('application/json', { a: 1 }, raw));
+    expect(parsed.payload).toEqual({ a: 1 });
+    expect(parsed.rawBody).toBe(raw);
+  });
+
+  it('turns form fields into keys and repeated fields into arrays', () => {
+    const parsed = parseWebhookBody(request(
+      'application/x-www-form-urlencoded; charset=utf-8',
+      'name=Jane+Doe&tag=a&tag=b&tag=c&note=%F0%9F%91%8D'
+    ));
+    expect(parsed.payload).toEqual({ name: 'Jane Doe', tag: ['a', 'b', 'c'], note: '👍' });
+    expect(parsed.rawBody.toString()).toBe('name=Jane+Doe&tag=a&tag=b&tag=c&note=%F0%9F%91%8D');
+  });
+
+  it('drops __proto__ fields', () => {
+    const parsed = parseWebhookBody(request('application/x-www-form-urlencoded', '__proto__=x&safe=1'));
+    expect(parsed.payload).toEqual({ safe: '1' });
+    expect(Object.getPrototypeOf(parsed.payload)).toBe(Object.prototype);
+  });
+
+  it('parses multipart fields and summarizes files', () => {
+    const body = [
+      '--XyZ',
+      'Content-Disposition: form-data; name="title"',
+      '',
+      'Quarterly report',
+      '--XyZ',
+      'Content-Disposition: form-data; name="attachment"; filename="report.pdf"',
+      'Content-Type: application/pdf',
+      '',
+      '%PDF-1.7 binary',
+      '--XyZ',
+      'Content-Disposition: form-data; name="title"',
+      '',
+      'Second title',
+      '--XyZ--',
+      '',
+    ].join('\r\n');
+
+    const parsed = parseWebhookBody(request('multipart/form-data; boundary="XyZ"', body));
+    expect(parsed.payload).toEqual({
+      title: ['Quarterly report', 'Second title'],
+      attachment: { filename: 'report.pdf', contentType: 'application/pdf', size: 15 },
+    });
+  });
+
+  it('rejects multipart bodies without a boundary', () => {
+    expect(() => parseWebhookBody(request('multipart/form-data', '--x--'))).toThrow('Missing multipart boundary');
+  });
+
+  it('rejects unterminated multipart bodies', () => {
+    const body = '--b\r\nContent-Disposition: form-data; name="a"\r\n\r\n1\r\n';
+    expect(() => parseWebhookBody(request('multipart/form-data; boundary=b', body))).toThrow('Unterminated multipart body');
+  });
+
+  it('parses XML bodies by media type', () => {
+    for (const contentType of ['application/xml', 'text/xml; charset=utf-8', 'application/atom+xml']) {
+      const parsed = parseWebhookBody(request(contentType, '<event><id>7</id></event>'));
+      expect(parsed.payload).toEqual({ event: { id: '7' } });
+    }
+  });
+
+  it('wraps other text bodies', () => {
+    const parsed = parseWebhookBody(request('text/plain', 'hello'));
+    expect(parsed.payload).toEqual({ text: 'hello' });
+  });
+});
+
+describe('parseXml', () => {
+  it('keeps attributes, repeated elements and mixed text', () => {
+    const xml = `<?xml version="1.0"?>
+      <!-- delivery -->
+      <order id="42" status='open'>
+        <line sku="A">2</line>
+        <line sku="B">1</line>
+        <note>Fragile</note>
+        <empty/>
+      </order>`;
+
+    expect(parseXml(xml)).toEqual({
+      order: {
+        '@id': '42',
+        '@status': 'open',
+        line: [{ '@sku': 'A', '#text': '2' }, { '@sku': 'B', '#text': '1' }],
+        note: 'Fragile',
+        empty: '',
+      },
+    });
+  });
+
+  it('decodes entities and keeps CDATA as-is', () => {
+    expect(parseXml('<a>Tom &amp; Jerry &#x263A; &#65;<![CDATA[<b>&amp;</b>]]></a>')).toEqual({
+      a: 'Tom & Jerry ☺ A<b>&amp;</b>',
+    });
+  });
+
+  it('skips a DOCTYPE with an internal subset', () => {
+    expect(parseXml('<!DOCTYPE a [<!ELEMENT a (#PCDATA)>]><a>x</a>')).toEqual({ a: 'x' });
+  });
+
+  it('reports mismatched and unclosed elements', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow('Expected </b> but found </a>');
+    expect(() => parseXml('<a>text')).toThrow('Unclosed element <a>');
+    expect(() => parseXml('<a/><b/>')).toThrow('Unexpected content after root element');
+    expect(() => parseXml('plain')).toThrow('Expected root element');
+  });
+});
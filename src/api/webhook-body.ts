@@ -0,0 +1,264 @@
+// =============================================================================
+// Webhook Bodies
+// Normalizes inbound webhook bodies (JSON, form, multipart, XML, text) into a
+// payload object while keeping the exact bytes received
+// =============================================================================
+
+import { Request } from 'express';
+
+export interface ParsedWebhookBody {
+  payload: Record<string, any>;
+  rawBody: Buffer;
+  contentType: string;
+}
+
+/**
+ * Content types mounted with express.raw on the inbound route. JSON is
+ * handled by the global express.json parser.
+ */
+export const RAW_WEBHOOK_TYPES = [
+  'application/x-www-form-urlencoded',
+  'multipart/form-data',
+  'application/xml',
+  'application/*+xml',
+  'text/*',
+];
+
+/**
+ * Normalize the request body. Non-JSON bodies arrive as a Buffer from
+ * express.raw and are parsed by content type:
+ * - form fields become keys (repeated fields become arrays)
+ * - multipart files become { filename, contentType, size }
+ * - XML becomes { root: { child, '@attr', '#text' } }
+ * - any other text becomes { text }
+ */
+export function parseWebhookBody(req: Request): ParsedWebhookBody {
+  const contentType = req.headers['content-type'] || '';
+
+  if (!Buffer.isBuffer(req.body)) {
+    return {
+      payload: req.body,
+      rawBody: (req as any).rawBody || Buffer.from(JSON.stringify(req.body)),
+      contentType,
+    };
+  }
+
+  const rawBody: Buffer = req.body;
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  let payload: Record<string, any>;
+
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    payload = {};
+    for (const [key, value] of new URLSearchParams(rawBody.toString('utf8'))) {
+      appendField(payload, key, value);
+    }
+  } else if (mediaType === 'multipart/form-data') {
+    payload = parseMultipart(rawBody, contentType);
+  } else if (mediaType === 'application/xml' || mediaType === 'text/xml' || mediaType.endsWith('+xml')) {
+    payload = parseXml(rawBody.toString('utf8'));
+  } else {
+    payload = { text: rawBody.toString('utf8') };
+  }
+
+  return { payload, rawBody, contentType };
+}
+
+// =============================================================================
+// Multipart
+// =============================================================================
+
+function parseMultipart(body: Buffer, contentType: string): Record<string, any> {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  if (!match) throw new Error('Missing multipart boundary');
+
+  const delimiter = Buffer.from(`--${match[1] || match[2].trim()}`);
+  const payload: Record<string, any> = {};
+
+  let start = body.indexOf(delimiter);
+  if (start < 0) throw new Error('No multipart parts found');
+
+  for (;;) {
+    start += delimiter.length;
+    // "--boundary--" closes the body
+    if (body.subarray(start, start + 2).toString() === '--') break;
+
+    const next = body.indexOf(delimiter, start);
+    if (next < 0) throw new Error('Unterminated multipart body');
+
+    // Each part sits between CRLFs: \r\n<headers>\r\n\r\n<content>\r\n
+    let part = body.subarray(start, next);
+    if (part.subarray(0, 2).toString() === '\r\n') part = part.subarray(2);
+    if (part.subarray(-2).toString() === '\r\n') part = part.subarray(0, -2);
+
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd < 0) throw new Error('Malformed multipart part');
+
+    const headers: Record<string, string> = {};
+    for (const line of part.subarray(0, headerEnd).toString('utf8').split('\r\n')) {
+      const colon = line.indexOf(':');
+      if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+
+    const disposition = headers['content-disposition'] || '';
+    const name = /(?:^|;)\s*name="([^"]*)"/i.exec(disposition)?.[1];
+    const filename = /(?:^|;)\s*filename="([^"]*)"/i.exec(disposition)?.[1];
+    const content = part.subarray(headerEnd + 4);
+
+    if (name !== undefined) {
+      // File contents stay in the raw body only
+      appendField(payload, name, filename !== undefined
+        ? { filename, contentType: headers['content-type'] || 'application/octet-stream', size: content.length }
+        : content.toString('utf8'));
+    }
+
+    start = next;
+  }
+
+  return payload;
+}
+
+// =============================================================================
+// XML
+// =============================================================================
+
+const NAME_PATTERN = /[A-Za-z_][\w.:-]*/y;
+const ATTRIBUTE_PATTERN = /\s+([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+
+/**
+ * Parse an XML document into plain objects. Elements with only text become
+ * strings, repeated elements become arrays, attributes are prefixed with "@"
+ * and text next to child elements or attributes is kept under "#text".
+ * Namespaces are not resolved; prefixed names are kept as-is.
+ */
+export function parseXml(xml: string): Record<string, any> {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${pos}`);
+  };
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = xml.indexOf(terminator, pos);
+    if (end < 0) fail(`Unterminated ${what}`);
+    pos = end + terminator.length;
+  };
+
+  // Whitespace, comments, processing instructions and DOCTYPE around the root
+  const skipProlog = () => {
+    for (;;) {
+      while (pos < xml.length && /\s/.test(xml[pos])) pos++;
+      if (xml.startsWith('<?', pos)) skipPast('?>', 'processing instruction');
+      else if (xml.startsWith('<!--', pos)) skipPast('-->', 'comment');
+      else if (xml.startsWith('<!DOCTYPE', pos)) {
+        const subset = xml.indexOf('[', pos);
+        const close = xml.indexOf('>', pos);
+        skipPast(subset >= 0 && subset < close ? ']>' : '>', 'DOCTYPE');
+      } else return;
+    }
+  };
+
+  const readName = (): string => {
+    NAME_PATTERN.lastIndex = pos;
+    const match = NAME_PATTERN.exec(xml);
+    if (!match) fail('Expected element name');
+    pos = NAME_PATTERN.lastIndex;
+    return match![0];
+  };
+
+  const parseElement = (): { name: string; value: any } => {
+    pos++; // '<'
+    const name = readName();
+    const element: Record<string, any> = {};
+    let structured = false;
+
+    for (;;) {
+      ATTRIBUTE_PATTERN.lastIndex = pos;
+      const attribute = ATTRIBUTE_PATTERN.exec(xml);
+      if (!attribute) break;
+      element[`@${attribute[1]}`] = decodeEntities(attribute[2] ?? attribute[3]);
+      structured = true;
+      pos = ATTRIBUTE_PATTERN.lastIndex;
+    }
+
+    while (/\s/.test(xml[pos])) pos++;
+    if (xml.startsWith('/>', pos)) {
+      pos += 2;
+      return { name, value: structured ? element : '' };
+    }
+    if (xml[pos] !== '>') fail(`Malformed start tag <${name}>`);
+    pos++;
+
+    let text = '';
+    for (;;) {
+      if (pos >= xml.length) fail(`Unclosed element <${name}>`);
+
+      if (xml.startsWith('</', pos)) {
+        pos += 2;
+        const closing = readName();
+        if (closing !== name) fail(`Expected </${name}> but found </${closing}>`);
+        while (/\s/.test(xml[pos])) pos++;
+        if (xml[pos] !== '>') fail(`Malformed end tag </${name}>`);
+        pos++;
+        break;
+      }
+
+      if (xml.startsWith('<!--', pos)) {
+        skipPast('-->', 'comment');
+      } else if (xml.startsWith('<![CDATA[', pos)) {
+        const end = xml.indexOf(']]>', pos);
+        if (end < 0) fail('Unterminated CDATA section');
+        text += xml.slice(pos + 9, end);
+        pos = end + 3;
+      } else if (xml.startsWith('<?', pos)) {
+        skipPast('?>', 'processing instruction');
+      } else if (xml[pos] === '<') {
+        const child = parseElement();
+        appendField(element, child.name, child.value);
+        structured = true;
+      } else {
+        const next = xml.indexOf('<', pos);
+        if (next < 0) fail(`Unclosed element <${name}>`);
+        text += decodeEntities(xml.slice(pos, next));
+        pos = next;
+      }
+    }
+
+    text = text.trim();
+    if (!structured) return { name, value: text };
+    if (text) element['#text'] = text;
+    return { name, value: element };
+  };
+
+  skipProlog();
+  if (xml[pos] !== '<') fail('Expected root element');
+  const root = parseElement();
+  skipProlog();
+  if (pos < xml.length) fail('Unexpected content after root element');
+
+  return { [root.name]: root.value };
+}
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+}
+
+/**
+ * Set a field, turning repeated fields into arrays. Field names come from the
+ * sender, so "__proto__" is dropped rather than assigned.
+ */
+function appendField(target: Record<string, any>, key: string, value: any): void {
+  if (key === '__proto__') return;
+  if (!Object.prototype.hasOwnProperty.call(target, key)) {
+    target[key] = value;
+  } else if (Array.isArray(target[key])) {
+    target[key].push(value);
+  } else {
+    target[key] = [target[key], value];
+  }
+}
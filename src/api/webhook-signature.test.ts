@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { claimNonce, verifyHmac, verifyWebhookSignature } from './webhook-signature';
+
+const SECRET = 'shh';
+const BODY = Buffer.from('{"action":"opened"}');
+
+function sign(payload: Buffer | string, encoding: 'hex' | 'base64' = 'hex'): string {
+  return crypto.createHmac('sha256', SECRET).update(payload).digest(encoding);
+}
+
+/**
+ * Stand-in for the trigger dedup table: createMany skips keys already stored.
+ */
+function fakePrisma() {
+  const rows = new Map<string, { expiresAt: Date }>();
+  const prisma = {
+    triggerDedup: {
+      createMany: async ({ data }: { data: { automationId: string; eventKey: string; expiresAt: Date }[] }) => {
+        let count = 0;
+        for (const row of data) {
+          const key = `${row.automationId}:${row.eventKey}`;
+          if (rows.has(key)) continue;
+          rows.set(key, { expiresAt: row.expiresAt });
+          count++;
+        }
+        return { count };
+      },
+    },
+  };
+  return { prisma: prisma as any, rows };
+}
+
+describe('verifyHmac', () => {
+  it('accepts a matching signature with or without the algorithm prefix', () => {
+    expect(verifyHmac(SECRET, BODY, sign(BODY))).toBe(true);
+    expect(verifyHmac(SECRET, BODY, `sha256=${sign(BODY)}`)).toBe(true);
+  });
+
+  it('rejects a signature of a different length without throwing', () => {
+    expect(verifyHmac(SECRET, BODY, sign(BODY).slice(0, 10))).toBe(false);
+    expect(verifyHmac(SECRET, BODY, '')).toBe(false);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const other = crypto.createHmac('sha256', 'other').update(BODY).digest('hex');
+    expect(verifyHmac(SECRET, BODY, other)).toBe(false);
+  });
+
+  it('supports base64 encoded signatures', () => {
+    expect(verifyHmac(SECRET, BODY, sign(BODY, 'base64'), 'sha256', 'base64')).toBe(true);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  describe('plain HMAC', () => {
+    it('verifies the default header', () => {
+      const check = verifyWebhookSignature(SECRET, undefined, BODY, { 'x-webhook-signature': sign(BODY) });
+      expect(check).toEqual({ ok: true });
+    });
+
+    it('reports a missing header', () => {
+      const check = verifyWebhookSignature(SECRET, undefined, BODY, {});
+      expect(check).toEqual({ ok: false, reason: 'Missing x-webhook-signature header' });
+    });
+
+    it('rejects a truncated signature', () => {
+      const check = verifyWebhookSignature(SECRET, undefined, BODY, { 'x-webhook-signature': sign(BODY).slice(1) });
+      expect(check).toEqual({ ok: false, reason: 'Invalid signature' });
+    });
+
+    it('rejects a body that was changed after signing', () => {
+      const check = verifyWebhookSignature(SECRET, undefined, Buffer.from('{"action":"closed"}'), {
+        'x-webhook-signature': sign(BODY),
+      });
+      expect(check.ok).toBe(false);
+    });
+
+    it('strips a configured prefix and uses a configured nonce header', () => {
+      const check = verifyWebhookSignature(
+        SECRET,
+        { header: 'X-Signature', prefix: 'v0=', nonceHeader: 'X-Request-Id' },
+        BODY,
+        { 'x-signature': `v0=${sign(BODY)}`, 'x-request-id': 'req-1' }
+      );
+      expect(check).toEqual({ ok: true, nonce: 'req-1' });
+    });
+
+    it('signs "<timestamp>.<body>" when a timestamp header is configured', () => {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const signature = sign(`${timestamp}.${BODY}`);
+      const config = { timestampHeader: 'x-timestamp' };
+
+      expect(verifyWebhookSignature(SECRET, config, BODY, {
+        'x-webhook-signature': signature,
+        'x-timestamp': timestamp,
+      })).toEqual({ ok: true, nonce: `${timestamp}:${signature}` });
+
+      expect(verifyWebhookSignature(SECRET, config, BODY, { 'x-webhook-signature': signature })).toEqual({
+        ok: false,
+        reason: 'Missing x-timestamp header',
+      });
+    });
+  });
+
+  describe('GitHub', () => {
+    it('verifies X-Hub-Signature-256 and uses the delivery ID as nonce', () => {
+      const check = verifyWebhookSignature(SECRET, { scheme: 'github' }, BODY, {
+        'x-hub-signature-256': `sha256=${sign(BODY)}`,
+        'x-github-delivery': 'delivery-1',
+      });
+      expect(check).toEqual({ ok: true, nonce: 'delivery-1' });
+    });
+
+    it('rejects a signature of the wrong length', () => {
+      const check = verifyWebhookSignature(SECRET, { scheme: 'github' }, BODY, {
+        'x-hub-signature-256': 'sha256=abc',
+      });
+      expect(check).toEqual({ ok: false, reason: 'Invalid signature' });
+    });
+  });
+
+  describe('Stripe', () => {
+    const now = () => Math.floor(Date.now() / 1000);
+    const stripeHeader = (t: number, ...signatures: string[]) =>
+      [`t=${t}`, ...signatures.map((sig) => `v1=${sig}`)].join(',');
+
+    it('verifies the v1 signature over "<t>.<body>"', () => {
+      const t = now();
+      const signature = sign(`${t}.${BODY}`);
+      const check = verifyWebhookSignature(SECRET, { scheme: 'stripe' }, BODY, {
+        'stripe-signature': stripeHeader(t, signature),
+      });
+      expect(check).toEqual({ ok: true, nonce: `${t}:${signature}` });
+    });
+
+    it('accepts any of several v1 signatures during secret rotation', () => {
+      const t = now();
+      const check = verifyWebhookSignature(SECRET, { scheme: 'stripe' }, BODY, {
+        'stripe-signature': stripeHeader(t, 'deadbeef', sign(`${t}.${BODY}`)),
+      });
+      expect(check.ok).toBe(true);
+    });
+
+    it('rejects timestamps outside the tolerance window', () => {
+      const t = now() - 600;
+      const check = verifyWebhookSignature(SECRET, { scheme: 'stripe' }, BODY, {
+        'stripe-signature': stripeHeader(t, sign(`${t}.${BODY}`)),
+      });
+      expect(check).toEqual({ ok: false, reason: 'Signature timestamp outside tolerance window' });
+    });
+
+    it('rejects a signature over the body alone', () => {
+      const check = verifyWebhookSignature(SECRET, { scheme: 'stripe' }, BODY, {
+        'stripe-signature': stripeHeader(now(), sign(BODY)),
+      });
+      expect(check).toEqual({ ok: false, reason: 'Invalid signature' });
+    });
+
+    it('rejects a header without a timestamp', () => {
+      const check = verifyWebhookSignature(SECRET, { scheme: 'stripe' }, BODY, {
+        'stripe-signature': `v1=${sign(BODY)}`,
+      });
+      expect(check).toEqual({ ok: false, reason: 'Malformed stripe-signature header' });
+    });
+  });
+});
+
+describe('claimNonce', () => {
+  it('rejects a replayed nonce for the same automation', async () => {
+    const { prisma } = fakePrisma();
+    expect(await claimNonce(prisma, 'automation-1', 'delivery-1', { scheme: 'github' })).toBe(true);
+    expect(await claimNonce(prisma, 'automation-1', 'delivery-1', { scheme: 'github' })).toBe(false);
+  });
+
+  it('keeps nonces separate per automation', async () => {
+    const { prisma } = fakePrisma();
+    expect(await claimNonce(prisma, 'automation-1', 'delivery-1', undefined)).toBe(true);
+    expect(await claimNonce(prisma, 'automation-2', 'delivery-1', undefined)).toBe(true);
+  });
+
+  it('keeps delivery IDs for a day and timestamped nonces for twice the tolerance', async () => {
+    const { prisma, rows } = fakePrisma();
+    const before = Date.now();
+
+    await claimNonce(prisma, 'automation-1', 'delivery-1', { scheme: 'github' });
+    await claimNonce(prisma, 'automation-2', '123:abc', { scheme: 'stripe', toleranceSeconds: 60 });
+
+    const [github, stripe] = [...rows.values()].map((row) => row.expiresAt.getTime() - before);
+    expect(github).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000);
+    expect(stripe).toBeGreaterThanOrEqual(120 * 1000);
+    expect(stripe).toBeLessThan(121 * 1000);
+  });
+});
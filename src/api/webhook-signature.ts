@@ -0,0 +1,129 @@
+// =============================================================================
+// Webhook Signatures
+// HMAC verification of inbound webhook bodies with replay protection
+// =============================================================================
+
+import { PrismaClient } from '@prisma/client';
+import { WebhookSignatureConfig } from '../engine/types';
+import crypto from 'crypto';
+
+export type SignatureCheck =
+  | { ok: true; nonce?: string }
+  | { ok: false; reason: string };
+
+type Headers = Record<string, string | string[] | undefined>;
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const DEFAULT_NONCE_TTL_SECONDS = 24 * 60 * 60;
+
+// Defaults per scheme; anything set on the trigger wins
+const SCHEME_DEFAULTS: Record<NonNullable<WebhookSignatureConfig['scheme']>, WebhookSignatureConfig> = {
+  hmac: { header: 'x-webhook-signature', algorithm: 'sha256', encoding: 'hex' },
+  github: { header: 'x-hub-signature-256', algorithm: 'sha256', encoding: 'hex', nonceHeader: 'x-github-delivery' },
+  stripe: { header: 'stripe-signature', algorithm: 'sha256', encoding: 'hex' },
+};
+
+/**
+ * Compare an HMAC of `payload` with a provided signature in constant time.
+ * An `<algorithm>=` prefix on the signature is ignored.
+ */
+export function verifyHmac(
+  secret: string,
+  payload: Buffer | string,
+  signature: string,
+  algorithm: string = 'sha256',
+  encoding: 'hex' | 'base64' = 'hex'
+): boolean {
+  const expected = Buffer.from(crypto.createHmac(algorithm, secret).update(payload).digest(encoding));
+  const provided = Buffer.from(signature.trim().replace(new RegExp(`^${algorithm}=`), ''));
+  // timingSafeEqual throws on length mismatch
+  if (provided.length !== expected.length) return false;
+  return crypto.timingSafeEqual(provided, expected);
+}
+
+/**
+ * Verify a webhook delivery against the raw request body. Timestamped schemes
+ * are checked against the tolerance window; the returned nonce (when there is
+ * one) must still be claimed with `claimNonce` to reject replays.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  config: WebhookSignatureConfig | undefined,
+  rawBody: Buffer,
+  headers: Headers
+): SignatureCheck {
+  const scheme = config?.scheme || 'hmac';
+  const settings = { ...SCHEME_DEFAULTS[scheme], ...config };
+  const header = settings.header!.toLowerCase();
+  const value = readHeader(headers, header);
+  if (!value) return { ok: false, reason: `Missing ${header} header` };
+
+  const toleranceSeconds = settings.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  let timestamp: string | undefined;
+  let signatures: string[];
+
+  if (scheme === 'stripe') {
+    // t=<unix seconds>,v1=<sig>[,v1=<sig>...] — several v1 entries during secret rotation
+    const parts = value.split(',').map((part) => part.trim().split('='));
+    timestamp = parts.find(([key]) => key === 't')?.[1];
+    signatures = parts.filter(([key]) => key === 'v1').map(([, sig]) => sig);
+    if (!timestamp || !signatures.length) return { ok: false, reason: 'Malformed stripe-signature header' };
+  } else {
+    const prefix = settings.prefix;
+    signatures = [prefix && value.startsWith(prefix) ? value.slice(prefix.length) : value];
+    if (settings.timestampHeader) {
+      timestamp = readHeader(headers, settings.timestampHeader.toLowerCase());
+      if (!timestamp) return { ok: false, reason: `Missing ${settings.timestampHeader} header` };
+    }
+  }
+
+  if (timestamp !== undefined) {
+    const sentAt = Number(timestamp);
+    if (!Number.isFinite(sentAt)) return { ok: false, reason: 'Invalid signature timestamp' };
+    if (Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) {
+      return { ok: false, reason: 'Signature timestamp outside tolerance window' };
+    }
+  }
+
+  // Timestamped signatures cover "<timestamp>.<body>" so the timestamp can't be swapped
+  const payload = timestamp !== undefined ? Buffer.concat([Buffer.from(`${timestamp}.`), rawBody]) : rawBody;
+  const valid = signatures.find((sig) => verifyHmac(secret, payload, sig, settings.algorithm, settings.encoding));
+  if (!valid) return { ok: false, reason: 'Invalid signature' };
+
+  // A delivery ID header is the best nonce; otherwise a timestamped signature is unique per delivery
+  const nonce = settings.nonceHeader ? readHeader(headers, settings.nonceHeader.toLowerCase()) : undefined;
+  if (nonce) return { ok: true, nonce };
+  if (timestamp !== undefined) return { ok: true, nonce: `${timestamp}:${valid}` };
+  return { ok: true };
+}
+
+/**
+ * Record a nonce for an automation. Returns false when it was already used,
+ * i.e. the delivery is a replay. Nonces share the expiring trigger dedup table.
+ */
+export async function claimNonce(
+  prisma: PrismaClient,
+  automationId: string,
+  nonce: string,
+  config: WebhookSignatureConfig | undefined
+): Promise<boolean> {
+  const ttlSeconds = config?.nonceTtlSeconds
+    ?? (config?.nonceHeader || config?.scheme === 'github'
+      ? DEFAULT_NONCE_TTL_SECONDS
+      : 2 * (config?.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS));
+
+  const result = await prisma.triggerDedup.createMany({
+    data: [{
+      automationId,
+      eventKey: crypto.createHash('sha256').update(`webhook.nonce:${nonce}`).digest('hex'),
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+    }],
+    skipDuplicates: true,
+  });
+  return result.count === 1;
+}
+
+function readHeader(headers: Headers, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,182 @@
+// =============================================================================
+// Catalog Watcher
+// Fetches item changes once per catalog per cycle and shares them between
+// every automation that watches the catalog
+// =============================================================================
+
+import { OnstaqClient } from '../onstaq/client';
+import { Comment, HistoryEntry } from '../onstaq/types';
+import { AutomationRule, Item, TriggerConfig } from './types';
+
+/**
+ * Position reached by a polling loop: the last processed timestamp plus the
+ * item ID as a tie-breaker for items sharing that timestamp.
+ */
+export interface PollCursor {
+  at: string;
+  id: string;
+}
+
+export type CursorField = 'createdAt' | 'updatedAt';
+
+export interface CatalogSubscriber {
+  automation: AutomationRule;
+  trigger: TriggerConfig;
+  intervalMs: number;
+  nextDueAt: number;
+}
+
+const POLL_PAGE_SIZE = 100;
+
+export function isAfterCursor(item: Item, field: CursorField, cursor: PollCursor): boolean {
+  const at = new Date(item[field]).getTime();
+  const cursorAt = new Date(cursor.at).getTime();
+  return at > cursorAt || (at === cursorAt && item.id > cursor.id);
+}
+
+export function compareCursors(a: PollCursor, b: PollCursor): number {
+  const diff = new Date(a.at).getTime() - new Date(b.at).getTime();
+  return diff !== 0 ? diff : a.id.localeCompare(b.id);
+}
+
+/**
+ * Changes fetched for one catalog in one cycle. History, comments and the full
+ * item listing are fetched lazily and cached, so subscribers that need the
+ * same data share a single API call.
+ */
+export class CatalogChangeSet {
+  readonly catalogId: string;
+  readonly items: Item[];
+  private onstaqClient: OnstaqClient;
+  private history: Map<string, Promise<HistoryEntry[]>> = new Map();
+  private comments: Map<string, Promise<Comment[]>> = new Map();
+  private allItems: Promise<Item[]> | null = null;
+
+  constructor(onstaqClient: OnstaqClient, catalogId: string, items: Item[]) {
+    this.onstaqClient = onstaqClient;
+    this.catalogId = catalogId;
+    this.items = items;
+  }
+
+  /**
+   * Items past a subscriber's own cursor, oldest-first by the cursor field.
+   */
+  itemsAfter(cursor: PollCursor, field: CursorField): Item[] {
+    return this.items
+      .filter((item) => isAfterCursor(item, field, cursor))
+      .sort((a, b) => compareCursors({ at: a[field], id: a.id }, { at: b[field], id: b.id }));
+  }
+
+  getHistory(itemId: string): Promise<HistoryEntry[]> {
+    let history = this.history.get(itemId);
+    if (!history) {
+      history = this.onstaqClient.getHistory(itemId);
+      this.history.set(itemId, history);
+    }
+    return history;
+  }
+
+  getComments(itemId: string): Promise<Comment[]> {
+    let comments = this.comments.get(itemId);
+    if (!comments) {
+      comments = this.onstaqClient.getComments(itemId);
+      this.comments.set(itemId, comments);
+    }
+    return comments;
+  }
+
+  /**
+   * Every item in the catalog (needed to detect deletions).
+   */
+  listAllItems(): Promise<Item[]> {
+    if (!this.allItems) {
+      this.allItems = listAllItems(this.onstaqClient, this.catalogId);
+    }
+    return this.allItems;
+  }
+}
+
+export class CatalogWatcher {
+  readonly catalogId: string;
+  readonly subscribers: Map<string, CatalogSubscriber> = new Map();
+  timer: NodeJS.Timeout | null = null;
+  private onstaqClient: OnstaqClient;
+
+  constructor(onstaqClient: OnstaqClient, catalogId: string) {
+    this.onstaqClient = onstaqClient;
+    this.catalogId = catalogId;
+  }
+
+  /**
+   * The watcher ticks at the shortest interval any subscriber asked for.
+   */
+  get intervalMs(): number {
+    return Math.min(...[...this.subscribers.values()].map((s) => s.intervalMs));
+  }
+
+  dueSubscribers(now: number): CatalogSubscriber[] {
+    return [...this.subscribers.values()].filter((s) => s.nextDueAt <= now);
+  }
+
+  /**
+   * Page through the catalog newest-first until items fall behind the cursor,
+   * so bursts larger than one page are never dropped.
+   */
+  async fetchChanges(since: PollCursor): Promise<CatalogChangeSet> {
+    const found = new Map<string, Item>();
+    const sinceAt = new Date(since.at).getTime();
+    let page = 1;
+
+    while (true) {
+      const result = await this.onstaqClient.listItems({
+        catalogId: this.catalogId,
+        sortBy: 'updatedAt',
+        sortOrder: 'desc',
+        page,
+        limit: POLL_PAGE_SIZE,
+      });
+
+      let reachedCursor = false;
+      for (const item of result.data) {
+        if (isAfterCursor(item, 'updatedAt', since)) {
+          // Items touched mid-scan shift pages, so the same item can show up twice
+          found.set(item.id, item);
+        } else if (new Date(item.updatedAt).getTime() < sinceAt) {
+          // Items sharing the cursor timestamp can straddle a page boundary,
+          // so only stop once strictly older items appear
+          reachedCursor = true;
+        }
+      }
+
+      if (reachedCursor || result.data.length === 0 || page >= (result.pagination?.totalPages || 1)) break;
+      page++;
+    }
+
+    return new CatalogChangeSet(this.onstaqClient, this.catalogId, [...found.values()]);
+  }
+}
+
+/**
+ * Page through every item in a catalog, oldest first so items created
+ * mid-scan land on the last page instead of shifting earlier ones. Deletions
+ * mid-scan can still shift an item past a page boundary.
+ */
+export async function listAllItems(onstaqClient: OnstaqClient, catalogId: string): Promise<Item[]> {
+  const items: Item[] = [];
+  let page = 1;
+
+  while (true) {
+    const result = await onstaqClient.listItems({
+      catalogId,
+      sortBy: 'createdAt',
+      sortOrder: 'asc',
+      page,
+      limit: POLL_PAGE_SIZE,
+    });
+    items.push(...result.data);
+    if (result.data.length === 0 || page >= (result.pagination?.totalPages || 1)) break;
+    page++;
+  }
+
+  return items;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { ConditionEvaluator } from './condition-evaluator';
+import { TemplateResolver } from './template-resolver';
+import { ConditionConfig, ExecutionContext, TriggerEvent } from './types';
+
+// JSONPath conditions never call ONSTAQ
+const evaluator = new ConditionEvaluator({} as any, new TemplateResolver({} as any));
+
+function context(trigger: Partial<TriggerEvent>): ExecutionContext {
+  return {
+    automationId: 'automation-1',
+    automationName: 'Test',
+    workspaceId: 'workspace-1',
+    trigger: { type: 'webhook.received', automationId: 'automation-1', timestamp: new Date().toISOString(), ...trigger },
+    componentResults: [],
+    variables: {},
+    createdItems: [],
+    startedAt: new Date(),
+  };
+}
+
+const payload = {
+  action: 'opened',
+  pull_request: { base: { ref: 'main' }, labels: [{ name: 'bug' }, { name: 'urgent' }] },
+  commits: [{ id: 'a1', files: ['src/a.ts'] }, { id: 'b2', files: ['README.md'] }],
+};
+
+async function passes(condition: ConditionConfig, trigger: Partial<TriggerEvent> = { webhookPayload: payload }) {
+  const result = await evaluator.evaluate(condition, context(trigger));
+  return result.passed;
+}
+
+describe('json_path conditions', () => {
+  it('compares the single value of a definite path', async () => {
+    expect(await passes({ type: 'json_path', path: '$.pull_request.base.ref', operator: 'equals', value: 'main' })).toBe(true);
+    expect(await passes({ type: 'json_path', path: "$['action']", operator: 'equals', value: 'closed' })).toBe(false);
+    expect(await passes({ type: 'json_path', path: 'commits[-1].id', operator: 'equals', value: 'b2' })).toBe(true);
+  });
+
+  it('treats a missing definite path as null', async () => {
+    expect(await passes({ type: 'json_path', path: '$.sender.login', operator: 'is_null' })).toBe(true);
+    expect(await passes({ type: 'json_path', path: '$.sender.login', operator: 'not_equals', value: 'bot' })).toBe(true);
+  });
+
+  describe('wildcards', () => {
+    it('pass when any selected value matches', async () => {
+      const condition = { type: 'json_path', path: '$.pull_request.labels[*].name', operator: 'equals' } as const;
+      expect(await passes({ ...condition, value: 'urgent' })).toBe(true);
+      expect(await passes({ ...condition, value: 'wontfix' })).toBe(false);
+    });
+
+    it('select every value at each level', async () => {
+      const condition = { type: 'json_path', path: '$.commits[*].files[*]', operator: 'ends_with' } as const;
+      expect(await passes({ ...condition, value: '.md' })).toBe(true);
+      expect(await passes({ ...condition, value: '.json' })).toBe(false);
+    });
+
+    it('fail positive operators when nothing is selected', async () => {
+      expect(await passes({ type: 'json_path', path: '$.reviewers[*].login', operator: 'equals', value: 'jane' })).toBe(false);
+    });
+  });
+
+  describe('negated operators with wildcards', () => {
+    it('pass only when every selected value satisfies them', async () => {
+      const condition = { type: 'json_path', path: '$.pull_request.labels[*].name', operator: 'not_equals' } as const;
+      expect(await passes({ ...condition, value: 'wontfix' })).toBe(true);
+      expect(await passes({ ...condition, value: 'bug' })).toBe(false);
+    });
+
+    it('apply to not_contains and not_in', async () => {
+      const path = '$.pull_request.labels[*].name';
+      expect(await passes({ type: 'json_path', path, operator: 'not_contains', value: 'skip' })).toBe(true);
+      expect(await passes({ type: 'json_path', path, operator: 'not_contains', value: 'urg' })).toBe(false);
+      expect(await passes({ type: 'json_path', path, operator: 'not_in', value: ['docs', 'chore'] })).toBe(true);
+      expect(await passes({ type: 'json_path', path, operator: 'not_in', value: ['docs', 'bug'] })).toBe(false);
+    });
+
+    it('pass when nothing is selected', async () => {
+      expect(await passes({ type: 'json_path', path: '$.reviewers[*].login', operator: 'not_equals', value: 'jane' })).toBe(true);
+    });
+  });
+
+  it('reads headers case-insensitively and query strings', async () => {
+    const trigger: Partial<TriggerEvent> = {
+      webhookPayload: {},
+      webhook: {
+        path: 'github',
+        method: 'POST',
+        headers: { 'x-github-event': 'pull_request' },
+        query: { env: ['staging', 'prod'] },
+        contentType: 'application/json',
+      },
+    };
+
+    expect(await passes({ type: 'json_path', source: 'headers', path: '$.X-GitHub-Event', operator: 'equals', value: 'pull_request' }, trigger)).toBe(true);
+    expect(await passes({ type: 'json_path', source: 'query', path: '$.env[*]', operator: 'equals', value: 'prod' }, trigger)).toBe(true);
+    expect(await passes({ type: 'json_path', source: 'query', path: '$.env[*]', operator: 'not_equals', value: 'prod' }, trigger)).toBe(false);
+  });
+
+  it('combines with condition groups', async () => {
+    expect(await passes({
+      operator: 'AND',
+      conditions: [
+        { type: 'json_path', path: '$.action', operator: 'in', value: ['opened', 'reopened'] },
+        { operator: 'NOT', conditions: [{ type: 'json_path', path: '$.pull_request.labels[*].name', operator: 'equals', value: 'wip' }] },
+      ],
+    })).toBe(true);
+  });
+
+  it('fails on an invalid path instead of throwing', async () => {
+    const result = await evaluator.evaluate(
+      { type: 'json_path', path: '$.a[', operator: 'equals', value: 1 },
+      context({ webhookPayload: payload })
+    );
+    expect(result.passed).toBe(false);
+    expect(result.details.error).toMatch(/Invalid JSONPath/);
+  });
+});
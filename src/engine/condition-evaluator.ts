@@ -6,12 +6,16 @@
 import {
   ConditionConfig, ConditionGroup, SingleCondition,
   AttributeCondition, OqlCondition, ReferenceCondition,
-  TemplateCondition, ExecutionContext, ConditionOperator
+  TemplateCondition, JsonPathCondition, ExecutionContext, ConditionOperator
 } from './types';
 import { OnstaqClient } from '../onstaq/client';
 import { TemplateResolver } from './template-resolver';
+import { isDefiniteJsonPath, parseJsonPath, queryJsonPath } from './json-path';
 import { logger } from '../utils/logger';
 
+// Negated operators must hold for every value a wildcard JSONPath selects
+const NEGATED_OPERATORS = new Set<ConditionOperator>(['not_equals', 'not_contains', 'not_in', 'is_null']);
+
 export interface ConditionResult {
   passed: boolean;
   details: Record<string, any>;
@@ -93,6 +97,8 @@ export class ConditionEvaluator {
         return this.evaluateReference(condition, ctx);
       case 'template':
         return this.evaluateTemplate(condition, ctx);
+      case 'json_path':
+        return this.evaluateJsonPath(condition, ctx);
       default:
         throw new Error(`Unknown condition type: ${(condition as any).type}`);
     }
@@ -104,8 +110,17 @@ export class ConditionEvaluator {
     const item = ctx.trigger.item;
     if (!item) return false;
 
-    const currentValue = item.attributeValues?.[condition.attribute];
-    const previousValue = ctx.trigger.previousValues?.[condition.attribute];
+    let currentValue = item.attributeValues?.[condition.attribute];
+    let previousValue = ctx.trigger.previousValues?.[condition.attribute];
+
+    // Built-in workflow status lives outside attributeValues. A transition
+    // only describes it when the trigger watched @status itself, not a
+    // STATUS-type attribute.
+    if (condition.attribute === '@status') {
+      const transition = ctx.trigger.transition?.field === '@status' ? ctx.trigger.transition : undefined;
+      currentValue = transition ? transition.to : item.status;
+      previousValue = transition ? transition.from : previousValue;
+    }
 
     return this.compareValue(condition.operator, currentValue, condition.value, previousValue, condition.from, condition.to);
   }
@@ -224,6 +239,28 @@ export class ConditionEvaluator {
     return true;
   }
 
+  // ---- JSONPath Conditions ----
+
+  private async evaluateJsonPath(condition: JsonPathCondition, ctx: ExecutionContext): Promise<boolean> {
+    const source = condition.source || 'payload';
+    const document = source === 'payload'
+      ? ctx.trigger.webhookPayload
+      : ctx.trigger.webhook?.[source];
+
+    // Header names arrive lower-cased
+    const segments = parseJsonPath(source === 'headers' ? condition.path.toLowerCase() : condition.path);
+    const values = queryJsonPath(document, segments);
+
+    if (isDefiniteJsonPath(segments)) {
+      return this.compareValue(condition.operator, values[0], condition.value);
+    }
+
+    const matches = (value: any) => this.compareValue(condition.operator, value, condition.value);
+    return NEGATED_OPERATORS.has(condition.operator)
+      ? values.every(matches)
+      : values.some(matches);
+  }
+
   // ---- Type Guard ----
 
   private isConditionGroup(node: ConditionConfig): node is ConditionGroup {
@@ -9,19 +9,43 @@ import { ConditionEvaluator } from './condition-evaluator';
 import { ActionRunner } from './action-runner';
 import { TemplateResolver } from './template-resolver';
 import { TriggerManager } from './trigger-manager';
+import { queryJsonPath } from './json-path';
 import {
   AutomationRule, TriggerEvent, ExecutionContext,
   RuleComponent, ComponentResult, ConditionConfig,
-  ActionConfig, BranchConfig, IfElseConfig, Item
+  ActionConfig, BranchConfig, IfElseConfig, Item,
+  WebhookReceivedTrigger, WebhookRequest, WebhookResponseTemplate
 } from './types';
+import { OnstaqEvent } from '../onstaq/types';
 import { logger } from '../utils/logger';
 
 export interface ExecutorConfig {
   maxConcurrentExecutions: number;
   pollIntervalMs: number;
   minPollIntervalMs: number;
+  pushWorkspaceIds: string[];
 }
 
+/**
+ * How an execution ended, with the final context for rendering responses.
+ */
+export interface ExecutionOutcome {
+  executionId: string;
+  status: 'SUCCESS' | 'FAILED';
+  error?: string;
+  context: ExecutionContext;
+}
+
+export interface BackfillOptions {
+  from: Date;
+  to: Date;
+  limit: number;
+}
+
+export type WebhookDispatchResult =
+  | { status: 'triggered'; executionId: string; completion: Promise<ExecutionOutcome> }
+  | { status: 'skipped'; reason: string };
+
 export class AutomationExecutor {
   private prisma: PrismaClient;
   private onstaqClient: OnstaqClient;
@@ -31,7 +55,7 @@ export class AutomationExecutor {
   private triggerManager: TriggerManager;
   private config: ExecutorConfig;
   private activeExecutions: number = 0;
-  private executionQueue: Array<{ automation: AutomationRule; event: TriggerEvent; resolve: (id: string) => void; reject: (err: Error) => void }> = [];
+  private executionQueue: Array<{ automation: AutomationRule; event: TriggerEvent; executionId: string; resolve: (outcome: ExecutionOutcome) => void; reject: (err: Error) => void }> = [];
 
   constructor(prisma: PrismaClient, onstaqClient: OnstaqClient, config?: Partial<ExecutorConfig>) {
     this.prisma = prisma;
@@ -40,6 +64,7 @@ export class AutomationExecutor {
       maxConcurrentExecutions: config?.maxConcurrentExecutions || 10,
       pollIntervalMs: config?.pollIntervalMs || 60000,
       minPollIntervalMs: config?.minPollIntervalMs || 10000,
+      pushWorkspaceIds: config?.pushWorkspaceIds || [],
     };
 
     this.templateResolver = new TemplateResolver(onstaqClient);
@@ -54,9 +79,11 @@ export class AutomationExecutor {
       prisma,
       onstaqClient,
       this.handleTriggerEvent.bind(this),
+      this.loadAutomations.bind(this),
       {
         defaultPollIntervalMs: this.config.pollIntervalMs,
         minPollIntervalMs: this.config.minPollIntervalMs,
+        pushWorkspaceIds: this.config.pushWorkspaceIds,
       }
     );
   }
@@ -85,7 +112,7 @@ export class AutomationExecutor {
    */
   async stop(): Promise<void> {
     logger.info('Stopping automation executor...');
-    this.triggerManager.stopAll();
+    await this.triggerManager.stopAll();
     // Wait for active executions to complete (with timeout)
     const timeout = 30000;
     const start = Date.now();
@@ -110,36 +137,154 @@ export class AutomationExecutor {
     };
 
     // If an itemId or itemKey is passed, fetch the item so actions with useTriggeredItem work
-    if (parameters?.itemId) {
-      try {
-        const item = await this.onstaqClient.getItem(parameters.itemId);
-        if (!item || typeof item === 'string' || !item.id) {
-          throw new Error(`Got invalid response instead of item data — check ONSTAQ_API_URL is pointing to the backend API, not the frontend`);
-        }
-        event.item = item;
-      } catch (err: any) {
-        logger.error(`Failed to fetch item ${parameters.itemId} for manual trigger: ${err.message}`);
-        throw new Error(`Failed to fetch item by ID "${parameters.itemId}": ${err.message}`);
-      }
-    } else if (parameters?.itemKey) {
-      try {
-        const result = await this.onstaqClient.listItems({ key: parameters.itemKey, workspaceId: automation.workspaceId });
-        if (!result || typeof result === 'string' || !Array.isArray(result.data)) {
-          throw new Error(`Got invalid response instead of items list — check ONSTAQ_API_URL is pointing to the backend API, not the frontend`);
-        }
-        if (result.data.length > 0) {
-          event.item = result.data[0];
-        } else {
-          throw new Error(`No item found with key "${parameters.itemKey}" in workspace ${automation.workspaceId}`);
-        }
-      } catch (err: any) {
-        if (err.message.startsWith('No item found') || err.message.startsWith('Got invalid')) throw err;
-        logger.error(`Failed to fetch item by key ${parameters.itemKey}: ${err.message}`);
-        throw new Error(`Failed to fetch item by key "${parameters.itemKey}": ${err.message}`);
+    event.item = await this.fetchTriggerItem(automation, parameters?.itemId, parameters?.itemKey);
+
+    return this.executeAutomation(automation, event);
+  }
+
+  /**
+   * Fire a webhook.received automation for an inbound HTTP request. The
+   * trigger's filter and conditions are checked first; when the trigger names
+   * an item path, the item it points at becomes trigger.item. Resolves once
+   * the execution is recorded; `completion` settles when it finishes.
+   */
+  async handleWebhook(
+    automation: AutomationRule,
+    payload: Record<string, any>,
+    request: WebhookRequest
+  ): Promise<WebhookDispatchResult> {
+    const trigger = automation.trigger as WebhookReceivedTrigger;
+    const event: TriggerEvent = {
+      type: 'webhook.received',
+      automationId: automation.id,
+      timestamp: new Date().toISOString(),
+      webhookPayload: payload,
+      webhook: request,
+    };
+
+    if (trigger.filter && !Object.entries(trigger.filter).every(([key, value]) => payload?.[key] === value)) {
+      return { status: 'skipped', reason: 'Filter mismatch' };
+    }
+
+    if (trigger.conditions) {
+      const result = await this.conditionEvaluator.evaluate(trigger.conditions, {
+        automationId: automation.id,
+        automationName: automation.name,
+        workspaceId: automation.workspaceId,
+        trigger: event,
+        componentResults: [],
+        variables: {},
+        createdItems: [],
+        startedAt: new Date(),
+      });
+      if (!result.passed) {
+        return {
+          status: 'skipped',
+          reason: result.details.error ? `Filter error: ${result.details.error}` : 'Conditions not met',
+        };
       }
     }
 
-    return this.executeAutomation(automation, event);
+    // Same JSONPath subset as json_path conditions; the first match wins
+    const itemId = trigger.itemIdPath ? queryJsonPath(payload, trigger.itemIdPath)[0] : undefined;
+    const itemKey = trigger.itemKeyPath ? queryJsonPath(payload, trigger.itemKeyPath)[0] : undefined;
+    if (itemId || itemKey) {
+      event.item = await this.fetchTriggerItem(automation, itemId && String(itemId), itemKey && String(itemKey));
+    } else if (trigger.itemIdPath || trigger.itemKeyPath) {
+      logger.warn(`Webhook for "${automation.name}" has no value at ${trigger.itemIdPath || trigger.itemKeyPath}, running without an item`);
+    }
+
+    const { executionId, completion } = await this.startExecution(automation, event);
+    return { status: 'triggered', executionId, completion };
+  }
+
+  /**
+   * Render the HTTP response of a sync webhook from its finished execution.
+   * Without a template the execution's status and variables are returned.
+   */
+  async renderWebhookResponse(
+    template: WebhookResponseTemplate | undefined,
+    outcome: ExecutionOutcome
+  ): Promise<{ status: number; headers: Record<string, string>; body: any }> {
+    const defaultStatus = outcome.status === 'SUCCESS' ? 200 : 500;
+    if (!template) {
+      return {
+        status: defaultStatus,
+        headers: {},
+        body: {
+          executionId: outcome.executionId,
+          status: outcome.status,
+          error: outcome.error,
+          variables: outcome.context.variables,
+        },
+      };
+    }
+
+    const ctx = outcome.context;
+    const status = template.status !== undefined
+      ? parseInt(await this.templateResolver.resolveString(String(template.status), ctx), 10)
+      : defaultStatus;
+    const headers = template.headers ? await this.templateResolver.resolveValue(template.headers, ctx) : {};
+    const body = await this.templateResolver.resolveValue(template.body, ctx);
+
+    return {
+      status: Number.isInteger(status) && status >= 100 && status <= 599 ? status : defaultStatus,
+      headers,
+      body,
+    };
+  }
+
+  /**
+   * Dispatch a native ONSTAQ event to the matching automations in its workspace.
+   * Returns the number of automations fired.
+   */
+  async handleOnstaqEvent(event: OnstaqEvent): Promise<number> {
+    const records = await this.prisma.automation.findMany({
+      where: { enabled: true, workspaceId: event.workspaceId },
+      orderBy: { executionOrder: 'asc' },
+    });
+
+    return this.triggerManager.handleOnstaqEvent(records.map(this.toAutomationRule), event);
+  }
+
+  /**
+   * List the events a backfill over changes from the automation's catalogs'
+   * history would fire, oldest first, without running anything.
+   */
+  async previewBackfill(automationId: string, options: BackfillOptions): Promise<{ events: TriggerEvent[]; truncated: boolean }> {
+    const automation = await this.getAutomationRule(automationId);
+    if (!automation) throw new Error(`Automation not found: ${automationId}`);
+
+    const result = await this.triggerManager.collectBackfillEvents(automation, options.from, options.to, options.limit);
+    logger.info(`Backfill for "${automation.name}": ${result.events.length} events (dry run)`);
+    return result;
+  }
+
+  /**
+   * Start a backfill in the background. Reading history takes one ONSTAQ call
+   * per touched item, so wide ranges outlast an HTTP request; this resolves
+   * once the automation is found and its executions, marked as backfill runs,
+   * are queued in order as collection finishes.
+   */
+  async startBackfill(automationId: string, options: BackfillOptions): Promise<void> {
+    const automation = await this.getAutomationRule(automationId);
+    if (!automation) throw new Error(`Automation not found: ${automationId}`);
+
+    this.runBackfill(automation, options).catch((err) =>
+      logger.error(`Backfill for "${automation.name}" failed: ${err.message}`)
+    );
+  }
+
+  private async runBackfill(automation: AutomationRule, options: BackfillOptions): Promise<void> {
+    const { events, truncated } = await this.triggerManager.collectBackfillEvents(
+      automation, options.from, options.to, options.limit
+    );
+    logger.info(`Backfill for "${automation.name}": ${events.length} events${truncated ? ' (limit reached)' : ''}`);
+
+    for (const event of events) {
+      const { executionId, completion } = await this.startExecution(automation, event);
+      completion.catch((err) => logger.error(`Backfill execution ${executionId} error: ${err.message}`));
+    }
   }
 
   /**
@@ -202,7 +347,7 @@ export class AutomationExecutor {
    * Reload triggers for a specific automation (e.g., after update).
    */
   async reloadAutomation(automationId: string): Promise<void> {
-    this.triggerManager.stopOne(automationId);
+    await this.triggerManager.stopOne(automationId);
 
     const automation = await this.getAutomationRule(automationId);
     if (automation?.enabled) {
@@ -214,6 +359,44 @@ export class AutomationExecutor {
   // Internal: Trigger event handler
   // ===========================================================================
 
+  /**
+   * Load the item a manual or webhook trigger refers to, by ID or by key
+   * within the automation's workspace.
+   */
+  private async fetchTriggerItem(automation: AutomationRule, itemId?: string, itemKey?: string): Promise<Item | undefined> {
+    if (itemId) {
+      try {
+        const item = await this.onstaqClient.getItem(itemId);
+        if (!item || typeof item === 'string' || !item.id) {
+          throw new Error(`Got invalid response instead of item data — check ONSTAQ_API_URL is pointing to the backend API, not the frontend`);
+        }
+        return item;
+      } catch (err: any) {
+        logger.error(`Failed to fetch item ${itemId} for ${automation.trigger.type} trigger: ${err.message}`);
+        throw new Error(`Failed to fetch item by ID "${itemId}": ${err.message}`);
+      }
+    }
+
+    if (itemKey) {
+      try {
+        const result = await this.onstaqClient.listItems({ key: itemKey, workspaceId: automation.workspaceId });
+        if (!result || typeof result === 'string' || !Array.isArray(result.data)) {
+          throw new Error(`Got invalid response instead of items list — check ONSTAQ_API_URL is pointing to the backend API, not the frontend`);
+        }
+        if (result.data.length > 0) {
+          return result.data[0];
+        }
+        throw new Error(`No item found with key "${itemKey}" in workspace ${automation.workspaceId}`);
+      } catch (err: any) {
+        if (err.message.startsWith('No item found') || err.message.startsWith('Got invalid')) throw err;
+        logger.error(`Failed to fetch item by key ${itemKey}: ${err.message}`);
+        throw new Error(`Failed to fetch item by key "${itemKey}": ${err.message}`);
+      }
+    }
+
+    return undefined;
+  }
+
   private async handleTriggerEvent(event: TriggerEvent): Promise<void> {
     const automation = await this.getAutomationRule(event.automationId);
     if (!automation || !automation.enabled) return;
@@ -229,38 +412,81 @@ export class AutomationExecutor {
    * Full execution pipeline: create execution record → execute component chain.
    */
   private async executeAutomation(automation: AutomationRule, event: TriggerEvent): Promise<string> {
-    if (this.activeExecutions >= this.config.maxConcurrentExecutions) {
-      logger.info(`Concurrency limit reached (${this.config.maxConcurrentExecutions}), queuing "${automation.name}" (queue size: ${this.executionQueue.length})`);
-      return new Promise<string>((resolve, reject) => {
-        this.executionQueue.push({ automation, event, resolve, reject });
+    const { executionId, completion } = await this.startExecution(automation, event);
+    await completion;
+    return executionId;
+  }
+
+  /**
+   * Create the execution record and run it now, or queue it as PENDING when
+   * the concurrency limit is reached. Resolves once the record exists;
+   * `completion` settles when the run ends.
+   */
+  private async startExecution(automation: AutomationRule, event: TriggerEvent): Promise<{
+    executionId: string;
+    completion: Promise<ExecutionOutcome>;
+  }> {
+    // Reserve the slot before awaiting so concurrent callers can't overshoot the limit
+    const queued = this.activeExecutions >= this.config.maxConcurrentExecutions;
+    if (!queued) this.activeExecutions++;
+
+    let execution: { id: string };
+    try {
+      execution = await this.prisma.execution.create({
+        data: {
+          automationId: automation.id,
+          status: queued ? 'PENDING' : 'RUNNING',
+          triggerData: event as any,
+          backfill: event.backfill === true,
+          startedAt: new Date(),
+        },
       });
+    } catch (err) {
+      if (!queued) {
+        this.activeExecutions--;
+        this.drainQueue();
+      }
+      throw err;
     }
 
-    return this.runExecution(automation, event);
+    if (!queued) {
+      return { executionId: execution.id, completion: this.runExecution(automation, event, execution.id) };
+    }
+
+    logger.info(`Concurrency limit reached (${this.config.maxConcurrentExecutions}), queuing "${automation.name}" (queue size: ${this.executionQueue.length})`);
+    const completion = new Promise<ExecutionOutcome>((resolve, reject) => {
+      this.executionQueue.push({ automation, event, executionId: execution.id, resolve, reject });
+    });
+    // Running executions may have finished (and drained an empty queue) during the insert
+    this.drainQueue();
+    return { executionId: execution.id, completion };
   }
 
   private async drainQueue(): Promise<void> {
     while (this.executionQueue.length > 0 && this.activeExecutions < this.config.maxConcurrentExecutions) {
       const next = this.executionQueue.shift()!;
+      this.activeExecutions++;
       logger.info(`Dequeuing automation "${next.automation.name}" (remaining: ${this.executionQueue.length})`);
-      this.runExecution(next.automation, next.event).then(next.resolve, next.reject);
+      this.prisma.execution.update({
+        where: { id: next.executionId },
+        data: { status: 'RUNNING', startedAt: new Date() },
+      })
+        .then(() => this.runExecution(next.automation, next.event, next.executionId))
+        .then(next.resolve, (err: Error) => {
+          this.activeExecutions--;
+          this.drainQueue();
+          next.reject(err);
+        });
     }
   }
 
-  private async runExecution(automation: AutomationRule, event: TriggerEvent): Promise<string> {
-    this.activeExecutions++;
+  /**
+   * Run the component chain for an execution record. The caller has already
+   * taken a concurrency slot, which is released here.
+   */
+  private async runExecution(automation: AutomationRule, event: TriggerEvent, executionId: string): Promise<ExecutionOutcome> {
     const startTime = new Date();
 
-    // Create execution record
-    const execution = await this.prisma.execution.create({
-      data: {
-        automationId: automation.id,
-        status: 'RUNNING',
-        triggerData: event as any,
-        startedAt: startTime,
-      },
-    });
-
     const ctx: ExecutionContext = {
       automationId: automation.id,
       automationName: automation.name,
@@ -282,12 +508,13 @@ export class AutomationExecutor {
       const finalStatus = hasFailure ? 'FAILED' : 'SUCCESS';
 
       // Update execution record
+      const error = hasFailure ? this.findFirstError(componentResults) : null;
       await this.prisma.execution.update({
-        where: { id: execution.id },
+        where: { id: executionId },
         data: {
           status: finalStatus,
           componentResults: componentResults as any,
-          error: hasFailure ? this.findFirstError(componentResults) : null,
+          error,
           completedAt: new Date(),
           durationMs: Date.now() - startTime.getTime(),
         },
@@ -296,11 +523,11 @@ export class AutomationExecutor {
       logger.info(`Automation "${automation.name}" ${finalStatus} in ${Date.now() - startTime.getTime()}ms`);
       this.activeExecutions--;
       this.drainQueue();
-      return execution.id;
+      return { executionId, status: finalStatus, error: error ?? undefined, context: ctx };
     } catch (err: any) {
       // Unexpected error
       await this.prisma.execution.update({
-        where: { id: execution.id },
+        where: { id: executionId },
         data: {
           status: 'FAILED',
           componentResults: ctx.componentResults as any,
@@ -312,7 +539,7 @@ export class AutomationExecutor {
 
       this.activeExecutions--;
       this.drainQueue();
-      return execution.id;
+      return { executionId, status: 'FAILED', error: err.message, context: ctx };
     }
   }
 
@@ -465,6 +692,12 @@ export class AutomationExecutor {
         break;
       }
 
+      case 'trigger_items': {
+        // Batched triggers collect several items; otherwise just the triggering one
+        items = ctx.trigger.items || (ctx.trigger.item ? [ctx.trigger.item] : []);
+        break;
+      }
+
       case 'lookup_items': {
         if (!branch.oqlQuery) {
           return {
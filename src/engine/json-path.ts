@@ -0,0 +1,92 @@
+// =============================================================================
+// JSONPath
+// Minimal JSONPath subset used to address webhook payloads, headers and query
+// strings from conditions: $.a.b, $['a-b'], $.list[0], $.list[-1], $.list[*]
+// =============================================================================
+
+export type JsonPathSegment =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' };
+
+const BRACKET_PATTERN = /^\[\s*(?:'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(\*)|(-?\d+))\s*\]/;
+const DOT_PATTERN = /^[^.[\]]+/;
+
+/**
+ * Parse a JSONPath expression. The leading `$` is optional, so
+ * `pull_request.base.ref` and `$.pull_request.base.ref` are equivalent.
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const trimmed = path.trim();
+  const source = trimmed.startsWith('$') ? trimmed : trimmed.startsWith('[') ? `$${trimmed}` : `$.${trimmed}`;
+  const segments: JsonPathSegment[] = [];
+
+  let i = 1;
+  while (i < source.length) {
+    const rest = source.slice(i);
+
+    if (rest[0] === '.') {
+      const match = DOT_PATTERN.exec(rest.slice(1));
+      if (!match) throw new Error(`Invalid JSONPath "${path}" at position ${i}`);
+      segments.push(match[0] === '*' ? { kind: 'wildcard' } : { kind: 'key', key: match[0] });
+      i += 1 + match[0].length;
+      continue;
+    }
+
+    if (rest[0] === '[') {
+      const match = BRACKET_PATTERN.exec(rest);
+      if (!match) throw new Error(`Invalid JSONPath "${path}" at position ${i}`);
+      const [token, single, double, wildcard, index] = match;
+      if (wildcard) segments.push({ kind: 'wildcard' });
+      else if (index !== undefined) segments.push({ kind: 'index', index: parseInt(index, 10) });
+      else segments.push({ kind: 'key', key: (single ?? double).replace(/\\(.)/g, '$1') });
+      i += token.length;
+      continue;
+    }
+
+    throw new Error(`Invalid JSONPath "${path}" at position ${i}`);
+  }
+
+  return segments;
+}
+
+/**
+ * Every value the path selects. Missing keys select nothing rather than
+ * undefined, so an empty result means the path did not resolve.
+ */
+export function queryJsonPath(document: any, path: string | JsonPathSegment[]): any[] {
+  const segments = typeof path === 'string' ? parseJsonPath(path) : path;
+  let current: any[] = [document];
+
+  for (const segment of segments) {
+    const next: any[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') continue;
+
+      switch (segment.kind) {
+        case 'key':
+          if (Object.prototype.hasOwnProperty.call(value, segment.key)) next.push(value[segment.key]);
+          break;
+        case 'index':
+          if (Array.isArray(value)) {
+            const index = segment.index < 0 ? value.length + segment.index : segment.index;
+            if (index >= 0 && index < value.length) next.push(value[index]);
+          }
+          break;
+        case 'wildcard':
+          next.push(...(Array.isArray(value) ? value : Object.values(value)));
+          break;
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * True when the path can select at most one value (no wildcards).
+ */
+export function isDefiniteJsonPath(segments: JsonPathSegment[]): boolean {
+  return segments.every((segment) => segment.kind !== 'wildcard');
+}
@@ -0,0 +1,64 @@
+// =============================================================================
+// Lease Manager
+// Lease-based ownership of automations so that only one engine instance polls
+// or schedules a given automation at a time
+// =============================================================================
+
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Leases live in automations."TriggerLease" and expire unless renewed, so an
+ * instance that dies hands its automations over once its leases run out.
+ * Expiry is always compared against the database clock, never the local one.
+ */
+export class LeaseManager {
+  readonly instanceId: string;
+  private prisma: PrismaClient;
+  private ttlMs: number;
+
+  constructor(prisma: PrismaClient, instanceId: string, ttlMs: number) {
+    this.prisma = prisma;
+    this.instanceId = instanceId;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Take the lease if it is free, expired or already ours.
+   */
+  async acquire(automationId: string): Promise<boolean> {
+    const count = await this.prisma.$executeRaw`
+      INSERT INTO "automations"."TriggerLease" ("automationId", "ownerId", "expiresAt")
+      VALUES (${automationId}, ${this.instanceId}, now() + make_interval(secs => ${this.ttlMs / 1000}::double precision))
+      ON CONFLICT ("automationId") DO UPDATE
+        SET "ownerId" = EXCLUDED."ownerId", "expiresAt" = EXCLUDED."expiresAt"
+        WHERE "TriggerLease"."ownerId" = EXCLUDED."ownerId" OR "TriggerLease"."expiresAt" < now()
+    `;
+    return count === 1;
+  }
+
+  /**
+   * Extend every lease this instance holds and return the automation IDs it
+   * still owns. Anything missing was taken over or released elsewhere.
+   */
+  async renew(): Promise<Set<string>> {
+    const held = await this.prisma.$queryRaw<{ automationId: string }[]>`
+      UPDATE "automations"."TriggerLease"
+      SET "expiresAt" = now() + make_interval(secs => ${this.ttlMs / 1000}::double precision)
+      WHERE "ownerId" = ${this.instanceId} AND "expiresAt" >= now()
+      RETURNING "automationId"
+    `;
+    return new Set(held.map((lease: { automationId: string }) => lease.automationId));
+  }
+
+  async release(automationId: string): Promise<void> {
+    await this.prisma.triggerLease.deleteMany({
+      where: { automationId, ownerId: this.instanceId },
+    });
+  }
+
+  async releaseAll(): Promise<void> {
+    await this.prisma.triggerLease.deleteMany({
+      where: { ownerId: this.instanceId },
+    });
+  }
+}
@@ -171,8 +171,16 @@ export class TemplateResolver {
         return this.navigatePath(trigger.item, path.slice(1));
       case 'previous':
         return this.navigatePath(trigger.previousValues, path.slice(1));
+      case 'reference':
+        return this.navigatePath(trigger.reference, path.slice(1));
+      case 'status':
+        return this.navigatePath(trigger.transition, path.slice(1));
+      case 'comment':
+        return this.navigatePath(trigger.comment, path.slice(1));
+      case 'actor':
+        return this.navigatePath(trigger.actor, path.slice(1));
       case 'user':
-        return this.navigatePath(trigger.item?.createdBy || trigger.item?.updatedBy, path.slice(1));
+        return this.navigatePath(trigger.actor || trigger.item?.createdBy || trigger.item?.updatedBy, path.slice(1));
       case 'timestamp':
         return trigger.timestamp;
       case 'type':
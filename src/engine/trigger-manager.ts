@@ -3,50 +3,151 @@
 // Manages polling, scheduling, and webhook-based trigger detection
 // =============================================================================
 
-import { CronJob } from 'cron';
+import { CronJob, CronTime } from 'cron';
 import { PrismaClient } from '@prisma/client';
 import { OnstaqClient } from '../onstaq/client';
 import {
   TriggerConfig, TriggerEvent, TriggerType,
-  ItemCreatedTrigger, ItemUpdatedTrigger,
-  AttributeChangedTrigger, StatusChangedTrigger,
+  ItemUpdatedTrigger, ItemTriggerConfig,
+  AttributeChangedTrigger, StatusChangedTrigger, ReferenceAddedTrigger,
   ItemLinkedTrigger, ItemUnlinkedTrigger,
-  ItemCommentedTrigger,
-  ScheduleTrigger, OqlMatchTrigger, AutomationRule
+  ScheduleTrigger, OqlMatchTrigger, DateReachedTrigger, AutomationRule,
+  MemberAddedTrigger, MemberRemovedTrigger, MemberRoleChangedTrigger, Item, TriggerReference, StatusTransition
 } from './types';
+import { Attribute, Catalog, HistoryEntry, ItemReference, OnstaqEvent, WorkspaceMember } from '../onstaq/types';
+import {
+  CatalogWatcher, CatalogChangeSet, CatalogSubscriber,
+  PollCursor, CursorField, compareCursors, listAllItems
+} from './catalog-watcher';
+import { LeaseManager } from './lease-manager';
 import { logger } from '../utils/logger';
 import crypto from 'crypto';
+import os from 'os';
 
 export interface TriggerManagerConfig {
   defaultPollIntervalMs: number;  // Default: 60000
   minPollIntervalMs: number;      // Default: 10000
+  pushWorkspaceIds: string[];     // Workspaces fed by ONSTAQ push events (no polling)
+  dedupTtlMs: number;             // Default: 7 days
+  dedupPurgeIntervalMs: number;   // Default: 3600000
+  webhookDeliveryTtlMs: number;   // Default: 7 days
+  pollJitterRatio: number;        // Default: 0.1 (±10% per cycle)
+  catalogCacheTtlMs: number;      // Default: 300000
+  defaultMisfireCap: number;      // Default: 10
+  instanceId: string;             // Default: hostname:pid:random
+  leaseTtlMs: number;             // Default: 30000
+  leaseRenewIntervalMs: number;   // Default: 10000
 }
 
 type TriggerHandler = (event: TriggerEvent) => Promise<void>;
+type AutomationLoader = () => Promise<AutomationRule[]>;
+
+// Trigger types that poll on a timer of their own instead of a catalog watcher:
+// OQL queries, membership and schema are workspace-wide, date triggers scan whole catalogs
+const SNAPSHOT_TRIGGER_TYPES: TriggerType[] = [
+  'oql.match', 'date.reached',
+  'member.added', 'member.removed', 'member.role_changed',
+  'schema.catalog_created', 'schema.attribute_added', 'schema.attribute_changed',
+];
+
+// Attribute fields ignored when diffing definitions: reordering isn't a definition change
+const IGNORED_ATTRIBUTE_FIELDS = ['position'];
+
+// Trigger types whose events can be rebuilt from item history
+export const BACKFILL_TRIGGER_TYPES: TriggerType[] = [
+  'item.created', 'item.updated', 'attribute.changed', 'status.changed',
+  'reference.added', 'item.linked', 'item.unlinked', 'item.commented',
+];
+
+/**
+ * Fields of an item kept in a deletion snapshot: what the item.deleted event
+ * exposes, plus updatedAt to tell whether the snapshot needs rewriting.
+ */
+type ItemSnapshot = Pick<Item, 'id' | 'key' | 'label' | 'catalogId' | 'attributeValues' | 'updatedAt'>;
+
+// Items whose history a backfill fetches at once
+const BACKFILL_FETCH_CONCURRENCY = 5;
+
+// Truncated MD5 keys that older versions stored in TriggerState.lastSeenData
+const LEGACY_HASH_KEY = /^[0-9a-f]{12}$/;
+
+// Trigger types that ONSTAQ native events can feed instead of polling
+const PUSH_TRIGGER_TYPES: TriggerType[] = [
+  'item.created', 'item.updated', 'item.deleted',
+  'attribute.changed', 'status.changed', 'reference.added',
+  'item.linked', 'item.unlinked', 'item.commented',
+];
+
+const OFFSET_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a signed offset such as '-2d' or '+4h' into milliseconds.
+ */
+function parseOffset(offset: string | undefined): number {
+  if (!offset) return 0;
+  const match = /^([+-])?(\d+)([mhdw])$/.exec(offset.trim());
+  if (!match) throw new Error(`Invalid date offset: ${offset}`);
+  const ms = Number(match[2]) * OFFSET_UNITS_MS[match[3]];
+  return match[1] === '-' ? -ms : ms;
+}
 
 export class TriggerManager {
   private prisma: PrismaClient;
   private onstaqClient: OnstaqClient;
   private config: TriggerManagerConfig;
   private handler: TriggerHandler;
+  private loadAutomations: AutomationLoader;
+  private leases: LeaseManager;
 
-  private pollingIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private pollingTimers: Map<string, NodeJS.Timeout> = new Map();
+  private catalogWatchers: Map<string, CatalogWatcher> = new Map();
+  private watcherTimers: Map<string, NodeJS.Timeout> = new Map();
+  private polledAutomations: Map<string, AutomationRule> = new Map();
   private cronJobs: Map<string, CronJob> = new Map();
+  private pushWorkspaces: Set<string>;
+  private catalogCache: Map<string, { catalogs: Catalog[]; fetchedAt: number }> = new Map();
+  private debounced: Map<string, { automation: AutomationRule; event: TriggerEvent; timer: NodeJS.Timeout }> = new Map();
+  private batches: Map<string, { automation: AutomationRule; events: TriggerEvent[]; timer: NodeJS.Timeout }> = new Map();
+  private owned: Map<string, AutomationRule> = new Map();
+  private starting: Set<string> = new Set();
+  private serviceUserId: string | null = null;
+  private leaseInterval: NodeJS.Timeout | null = null;
+  private leaseSyncRunning: boolean = false;
+  private dedupPurgeInterval: NodeJS.Timeout | null = null;
   private running: boolean = false;
 
   constructor(
     prisma: PrismaClient,
     onstaqClient: OnstaqClient,
     handler: TriggerHandler,
+    loadAutomations: AutomationLoader,
     config?: Partial<TriggerManagerConfig>
   ) {
     this.prisma = prisma;
     this.onstaqClient = onstaqClient;
     this.handler = handler;
+    this.loadAutomations = loadAutomations;
     this.config = {
       defaultPollIntervalMs: config?.defaultPollIntervalMs || 60000,
       minPollIntervalMs: config?.minPollIntervalMs || 10000,
+      pushWorkspaceIds: config?.pushWorkspaceIds || [],
+      dedupTtlMs: config?.dedupTtlMs || 7 * 24 * 60 * 60 * 1000,
+      dedupPurgeIntervalMs: config?.dedupPurgeIntervalMs || 3600000,
+      webhookDeliveryTtlMs: config?.webhookDeliveryTtlMs || 7 * 24 * 60 * 60 * 1000,
+      pollJitterRatio: config?.pollJitterRatio ?? 0.1,
+      catalogCacheTtlMs: config?.catalogCacheTtlMs || 300000,
+      defaultMisfireCap: config?.defaultMisfireCap || 10,
+      instanceId: config?.instanceId || `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`,
+      leaseTtlMs: config?.leaseTtlMs || 30000,
+      leaseRenewIntervalMs: config?.leaseRenewIntervalMs || 10000,
     };
+    this.pushWorkspaces = new Set(this.config.pushWorkspaceIds);
+    this.leases = new LeaseManager(prisma, this.config.instanceId, this.config.leaseTtlMs);
   }
 
   /**
@@ -56,19 +157,81 @@ export class TriggerManager {
     this.running = true;
     const enabled = automations.filter((a) => a.enabled);
 
+    // Schedule lease renewal first: leases taken below must be renewed even if
+    // a later automation fails to start, and syncLeases retries the failures
+    this.dedupPurgeInterval = setInterval(() => {
+      this.purgeExpiredDedup().catch((err) =>
+        logger.error(`Dedup purge failed: ${err.message}`)
+      );
+      this.purgeWebhookDeliveries().catch((err) =>
+        logger.error(`Webhook delivery purge failed: ${err.message}`)
+      );
+    }, this.config.dedupPurgeIntervalMs);
+
+    this.leaseInterval = setInterval(() => {
+      this.syncLeases().catch((err) =>
+        logger.error(`Lease sync failed: ${err.message}`)
+      );
+    }, this.config.leaseRenewIntervalMs);
+
+    try {
+      await this.loadPushWorkspaces();
+    } catch (err: any) {
+      logger.error(`Failed to load push workspaces: ${err.message}`);
+    }
+
     for (const automation of enabled) {
-      await this.startOne(automation);
+      try {
+        await this.startOne(automation);
+      } catch (err: any) {
+        logger.error(`Failed to start automation ${automation.id}, will retry on lease sync: ${err.message}`);
+      }
     }
 
-    logger.info(`Trigger manager started: ${enabled.length} automations active`);
+    logger.info(
+      `Trigger manager started as ${this.config.instanceId}: ` +
+      `${this.owned.size} of ${enabled.length} automations owned by this instance`
+    );
   }
 
   /**
-   * Register and start triggers for a single automation.
+   * Register and start triggers for a single automation, provided no other
+   * instance holds its lease.
    */
   async startOne(automation: AutomationRule): Promise<void> {
     if (!this.running) return;
 
+    // Manual and webhook automations only run on request, so any instance may serve them
+    if (!this.needsLease(automation)) return;
+
+    // startAll, lease syncs and reloads can race to start the same automation;
+    // acquire() succeeds for all of them once this instance holds the lease
+    if (this.owned.has(automation.id) || this.starting.has(automation.id)) return;
+    this.starting.add(automation.id);
+
+    try {
+      if (!(await this.leases.acquire(automation.id))) {
+        logger.debug(`Automation ${automation.id} is owned by another instance`);
+        return;
+      }
+
+      this.owned.set(automation.id, automation);
+      try {
+        await this.activate(automation);
+      } catch (err) {
+        // Hand the lease back so the next lease sync (here or elsewhere) retries it
+        await this.stopOne(automation.id);
+        throw err;
+      }
+    } finally {
+      this.starting.delete(automation.id);
+    }
+  }
+
+  /**
+   * Start polling or scheduling for an automation this instance owns.
+   */
+  private async activate(automation: AutomationRule): Promise<void> {
     const trigger = automation.trigger;
 
     switch (trigger.type) {
@@ -81,21 +244,44 @@ export class TriggerManager {
         // Webhook triggers are handled by the webhook endpoint
         break;
       default:
-        // All event-based triggers use polling
-        this.startPolling(automation, trigger);
+        // Push-fed workspaces get item events from /api/webhooks/onstaq
+        if (this.isPushFed(automation)) {
+          logger.info(`Automation ${automation.id} is fed by ONSTAQ push events, polling skipped`);
+          break;
+        }
+        // All other event-based triggers use polling
+        await this.startPolling(automation, trigger);
         break;
     }
   }
 
   /**
-   * Stop watching a specific automation.
+   * Stop watching a specific automation and hand its lease back. Resolves
+   * once the lease is released, so a following startOne can't lose the
+   * lease it re-acquires to a late release.
    */
-  stopOne(automationId: string): void {
-    const interval = this.pollingIntervals.get(automationId);
-    if (interval) {
-      clearInterval(interval);
-      this.pollingIntervals.delete(automationId);
+  async stopOne(automationId: string): Promise<void> {
+    await this.recordCronStop(automationId);
+    this.deactivate(automationId);
+
+    if (this.owned.delete(automationId)) {
+      try {
+        await this.leases.release(automationId);
+      } catch (err: any) {
+        logger.error(`Failed to release lease for ${automationId}: ${err.message}`);
+      }
+    }
+  }
+
+  private deactivate(automationId: string): void {
+    const timer = this.pollingTimers.get(automationId);
+    if (timer) {
+      clearTimeout(timer);
+      this.pollingTimers.delete(automationId);
     }
+    this.unsubscribe(automationId);
+    this.polledAutomations.delete(automationId);
+    this.flushPending(automationId);
 
     const cron = this.cronJobs.get(automationId);
     if (cron) {
@@ -105,21 +291,48 @@ export class TriggerManager {
   }
 
   /**
-   * Stop all triggers.
+   * Stop all triggers and release this instance's leases so other instances
+   * take over without waiting for them to expire.
    */
-  stopAll(): void {
+  async stopAll(): Promise<void> {
     this.running = false;
 
-    for (const [id, interval] of this.pollingIntervals) {
-      clearInterval(interval);
+    if (this.leaseInterval) {
+      clearInterval(this.leaseInterval);
+      this.leaseInterval = null;
+    }
+
+    for (const [id, timer] of this.pollingTimers) {
+      clearTimeout(timer);
+    }
+    this.pollingTimers.clear();
+
+    for (const [catalogId, timer] of this.watcherTimers) {
+      clearTimeout(timer);
     }
-    this.pollingIntervals.clear();
+    this.watcherTimers.clear();
+    this.catalogWatchers.clear();
+    this.polledAutomations.clear();
+    this.catalogCache.clear();
+    this.flushPending();
 
     for (const [id, cron] of this.cronJobs) {
       cron.stop();
     }
     this.cronJobs.clear();
 
+    if (this.dedupPurgeInterval) {
+      clearInterval(this.dedupPurgeInterval);
+      this.dedupPurgeInterval = null;
+    }
+
+    this.owned.clear();
+    try {
+      await this.leases.releaseAll();
+    } catch (err: any) {
+      logger.error(`Failed to release leases: ${err.message}`);
+    }
+
     logger.info('Trigger manager stopped');
   }
 
@@ -152,378 +365,1413 @@ export class TriggerManager {
   }
 
   // ===========================================================================
-  // Polling
+  // Push events (ONSTAQ native webhooks)
   // ===========================================================================
 
-  private startPolling(automation: AutomationRule, trigger: TriggerConfig): void {
-    const intervalMs = Math.max(this.config.defaultPollIntervalMs, this.config.minPollIntervalMs);
-
-    // Run immediately on start, then on interval
-    this.pollOnce(automation, trigger).catch((err) =>
-      logger.error(`Initial poll failed for ${automation.id}: ${err.message}`)
-    );
+  /**
+   * Handle a native ONSTAQ event. The event's workspace is marked as push-fed,
+   * which stops its polling loops, and the event is dispatched to every
+   * matching automation. Returns the number of automations fired.
+   */
+  async handleOnstaqEvent(automations: AutomationRule[], onstaqEvent: OnstaqEvent): Promise<number> {
+    await this.markPushWorkspace(onstaqEvent.workspaceId);
 
-    const interval = setInterval(async () => {
-      if (!this.running) return;
-      try {
-        await this.pollOnce(automation, trigger);
-      } catch (err: any) {
-        logger.error(`Poll failed for automation ${automation.id}: ${err.message}`);
-      }
-    }, intervalMs);
+    let dispatched = 0;
+    for (const automation of automations) {
+      if (!automation.enabled || automation.workspaceId !== onstaqEvent.workspaceId) continue;
 
-    this.pollingIntervals.set(automation.id, interval);
-  }
+      const event = await this.matchOnstaqEvent(automation, onstaqEvent);
+      if (!event) continue;
 
-  private async pollOnce(automation: AutomationRule, trigger: TriggerConfig): Promise<void> {
-    // Get or create trigger state
-    let state = await this.prisma.triggerState.findUnique({
-      where: { automationId: automation.id },
-    });
+      // Same key the polling path claims, so retried deliveries and changes
+      // also picked up by a poll (here or on another instance) fire once
+      if (!(await this.claimEvent(automation.id, this.pushChangeKey(automation.trigger.type, event, onstaqEvent)))) continue;
 
-    if (!state) {
-      state = await this.prisma.triggerState.create({
-        data: {
-          automationId: automation.id,
-          lastCheckedAt: new Date(),
-          lastSeenData: {},
-        },
-      });
+      await this.dispatch(automation, event);
+      dispatched++;
     }
 
-    const lastCheckedAt = state.lastCheckedAt;
-    const lastSeenData = (state.lastSeenData as Record<string, any>) || {};
+    return dispatched;
+  }
 
-    switch (trigger.type) {
+  /**
+   * Dedup key of a pushed event, built like the poll* functions build theirs:
+   * no change part for created/deleted, updatedAt for edits, and the comment
+   * or reference ID otherwise.
+   */
+  private pushChangeKey(triggerType: TriggerType, event: TriggerEvent, onstaqEvent: OnstaqEvent): string {
+    switch (triggerType) {
       case 'item.created':
-        await this.pollItemCreated(automation, trigger as ItemCreatedTrigger, lastCheckedAt, lastSeenData);
-        break;
+      case 'item.deleted':
+        return this.changeKey(triggerType, onstaqEvent.item);
       case 'item.updated':
-        await this.pollItemUpdated(automation, trigger as ItemUpdatedTrigger, lastCheckedAt, lastSeenData);
-        break;
       case 'attribute.changed':
-        await this.pollAttributeChanged(automation, trigger as AttributeChangedTrigger, lastCheckedAt, lastSeenData);
-        break;
       case 'status.changed':
-        await this.pollStatusChanged(automation, trigger as StatusChangedTrigger, lastCheckedAt, lastSeenData);
-        break;
-      case 'item.linked':
-        await this.pollItemLinked(automation, trigger as ItemLinkedTrigger, lastCheckedAt, lastSeenData);
-        break;
-      case 'item.unlinked':
-        await this.pollItemUnlinked(automation, trigger as ItemUnlinkedTrigger, lastCheckedAt, lastSeenData);
-        break;
+        return this.changeKey(triggerType, onstaqEvent.item, onstaqEvent.item.updatedAt);
       case 'item.commented':
-        await this.pollItemCommented(automation, trigger as ItemCommentedTrigger, lastCheckedAt, lastSeenData);
-        break;
-      case 'oql.match':
-        await this.pollOqlMatch(automation, trigger as OqlMatchTrigger, lastSeenData);
-        break;
+        return this.changeKey(triggerType, onstaqEvent.item, event.comment?.id ?? onstaqEvent.id);
+      default:
+        return this.changeKey(triggerType, onstaqEvent.item, event.reference?.id ?? onstaqEvent.id);
     }
-
-    // Update trigger state
-    await this.prisma.triggerState.update({
-      where: { automationId: automation.id },
-      data: { lastCheckedAt: new Date() },
-    });
   }
 
-  private async pollItemCreated(
-    automation: AutomationRule,
-    trigger: ItemCreatedTrigger,
-    lastChecked: Date,
-    lastSeen: Record<string, any>
-  ): Promise<void> {
-    const catalogId = trigger.catalogId || await this.resolveCatalogId(trigger.catalogName, automation.workspaceId);
-    if (!catalogId) return;
+  private isPushFed(automation: AutomationRule): boolean {
+    return this.pushWorkspaces.has(automation.workspaceId) && PUSH_TRIGGER_TYPES.includes(automation.trigger.type);
+  }
 
-    const result = await this.onstaqClient.listItems({
-      catalogId,
-      sortBy: 'createdAt',
-      sortOrder: 'desc',
-      limit: 20,
-    });
+  /**
+   * Record that a workspace pushes events. The flag is persisted so every
+   * instance stops polling it, not just the one that received the push.
+   */
+  private async markPushWorkspace(workspaceId: string): Promise<void> {
+    if (this.pushWorkspaces.has(workspaceId)) return;
 
-    for (const item of result.data) {
-      const createdAt = new Date(item.createdAt);
-      if (createdAt > lastChecked) {
-        // Dedup check
-        const hash = this.hashEvent(`item.created:${item.id}`);
-        if (lastSeen[hash]) continue;
+    try {
+      await this.prisma.pushWorkspace.upsert({
+        where: { workspaceId },
+        create: { workspaceId },
+        update: {},
+      });
+    } catch (err: any) {
+      logger.error(`Failed to persist push workspace ${workspaceId}: ${err.message}`);
+    }
+    this.applyPushWorkspace(workspaceId);
+  }
 
-        const event: TriggerEvent = {
-          type: 'item.created',
-          automationId: automation.id,
-          timestamp: new Date().toISOString(),
-          item,
-        };
+  /**
+   * Pick up workspaces other instances have seen push events for.
+   */
+  private async loadPushWorkspaces(): Promise<void> {
+    const records = await this.prisma.pushWorkspace.findMany();
+    for (const record of records) {
+      this.applyPushWorkspace(record.workspaceId);
+    }
+  }
 
-        await this.handler(event);
-        lastSeen[hash] = true;
+  private applyPushWorkspace(workspaceId: string): void {
+    if (this.pushWorkspaces.has(workspaceId)) return;
+    this.pushWorkspaces.add(workspaceId);
 
-        // Save dedup state
-        await this.prisma.triggerState.update({
-          where: { automationId: automation.id },
-          data: { lastSeenData: lastSeen },
-        });
-      }
+    for (const [id, automation] of this.polledAutomations) {
+      if (!this.isPushFed(automation)) continue;
+      this.deactivate(id);
+      logger.info(`Polling stopped for automation ${id}: workspace ${workspaceId} now pushes events`);
     }
   }
 
-  private async pollItemUpdated(
-    automation: AutomationRule,
-    trigger: ItemUpdatedTrigger,
-    lastChecked: Date,
-    lastSeen: Record<string, any>
-  ): Promise<void> {
-    const catalogId = trigger.catalogId || await this.resolveCatalogId(trigger.catalogName, automation.workspaceId);
-    if (!catalogId) return;
+  /**
+   * Map an ONSTAQ event onto an automation's trigger. Returns null when the
+   * trigger doesn't listen for this kind of change or its filters don't match.
+   */
+  private async matchOnstaqEvent(automation: AutomationRule, onstaqEvent: OnstaqEvent): Promise<TriggerEvent | null> {
+    const trigger = automation.trigger;
+    if (!PUSH_TRIGGER_TYPES.includes(trigger.type)) return null;
 
-    const result = await this.onstaqClient.listItems({
-      catalogId,
-      sortBy: 'updatedAt',
-      sortOrder: 'desc',
-      limit: 20,
-    });
+    const catalogId = onstaqEvent.catalogId || onstaqEvent.item.catalogId;
+    if (!(await this.matchesCatalog(automation, trigger, catalogId))) return null;
+
+    const changes = onstaqEvent.changes || {};
+    const base = {
+      automationId: automation.id,
+      timestamp: new Date().toISOString(),
+      item: onstaqEvent.item,
+      actor: onstaqEvent.user,
+    };
+
+    switch (onstaqEvent.type) {
+      case 'item.created':
+        return trigger.type === 'item.created' ? { type: 'item.created', ...base } : null;
+
+      case 'item.deleted':
+        return trigger.type === 'item.deleted' ? { type: 'item.deleted', ...base } : null;
 
-    for (const item of result.data) {
-      const updatedAt = new Date(item.updatedAt);
-      if (updatedAt > lastChecked) {
-        // If specific attributes are being watched, check history
-        if (trigger.attributes?.length) {
-          const history = await this.onstaqClient.getHistory(item.id);
-          const recentChanges = history.filter((h) => new Date(h.createdAt) > lastChecked && h.action === 'UPDATED');
+      case 'item.updated': {
+        const changedFields = Object.keys(changes);
+        const previousValues = this.extractPreviousValues(changes);
 
-          const relevant = recentChanges.some((h) => {
-            const changedFields = Object.keys(h.changes || {});
-            return trigger.attributes!.some((a) => changedFields.includes(a));
-          });
+        if (trigger.type === 'item.updated') {
+          if (trigger.attributes?.length && !trigger.attributes.some((a) => changedFields.includes(a))) return null;
+          return { type: 'item.updated', ...base, previousValues };
+        }
 
-          if (!relevant) continue;
+        if (trigger.type === 'attribute.changed') {
+          const change = changes[trigger.attributeName];
+          if (!change) return null;
+          if (!this.matchesValue(change.from, trigger.from) || !this.matchesValue(change.to, trigger.to)) return null;
+          return { type: 'item.updated', ...base, previousValues };
         }
 
-        const hash = this.hashEvent(`item.updated:${item.id}:${item.updatedAt}`);
-        if (lastSeen[hash]) continue;
+        if (trigger.type === 'status.changed') {
+          const statusFields = await this.getStatusFields(catalogId);
+          const field = statusFields.find((f) => changes[f]);
+          if (!field) return null;
 
-        // Get previous values from history
-        const history = await this.onstaqClient.getHistory(item.id);
-        const latestChange = history.find((h) => h.action === 'UPDATED');
-        const previousValues: Record<string, any> = {};
+          const statusFrom = changes[field].from ?? null;
+          const statusTo = changes[field].to ?? null;
+          if (!this.matchesValue(statusFrom, trigger.from) || !this.matchesValue(statusTo, trigger.to)) return null;
 
-        if (latestChange?.changes) {
-          for (const [field, change] of Object.entries(latestChange.changes as Record<string, any>)) {
-            if (change && typeof change === 'object' && 'from' in change) {
-              previousValues[field] = change.from;
-            }
-          }
+          return {
+            type: 'status.changed',
+            ...base,
+            previousValues,
+            transition: { from: statusFrom, to: statusTo, field },
+          };
         }
 
-        const event: TriggerEvent = {
-          type: 'item.updated',
-          automationId: automation.id,
-          timestamp: new Date().toISOString(),
-          item,
-          previousValues,
-        };
+        return null;
+      }
 
-        await this.handler(event);
-        lastSeen[hash] = true;
+      case 'item.linked': {
+        const kind = onstaqEvent.reference?.referenceKind;
+        if (trigger.type !== 'item.linked' && trigger.type !== 'reference.added') return null;
+        if (trigger.referenceKind && kind && kind !== trigger.referenceKind) return null;
 
-        await this.prisma.triggerState.update({
-          where: { automationId: automation.id },
-          data: { lastSeenData: lastSeen },
-        });
+        const reference = onstaqEvent.reference && this.toTriggerReference(onstaqEvent.reference);
+        return { type: trigger.type, ...base, reference };
+      }
+
+      case 'item.unlinked': {
+        const kind = onstaqEvent.reference?.referenceKind;
+        if (trigger.type !== 'item.unlinked') return null;
+        if (trigger.referenceKind && kind && kind !== trigger.referenceKind) return null;
+        const reference = onstaqEvent.reference && this.toTriggerReference(onstaqEvent.reference);
+        return { type: 'item.unlinked', ...base, reference };
       }
+
+      case 'item.commented':
+        if (trigger.type !== 'item.commented') return null;
+        return { type: 'item.commented', ...base, comment: onstaqEvent.comment, actor: onstaqEvent.comment?.user || base.actor };
+
+      default:
+        return null;
     }
   }
 
-  private async pollAttributeChanged(
-    automation: AutomationRule,
-    trigger: AttributeChangedTrigger,
-    lastChecked: Date,
-    lastSeen: Record<string, any>
-  ): Promise<void> {
-    // Reuse the item.updated logic but filter on specific attribute
-    const updatedTrigger: ItemUpdatedTrigger = {
-      type: 'item.updated',
-      catalogId: trigger.catalogId,
-      catalogName: trigger.catalogName,
-      attributes: [trigger.attributeName],
-    };
+  private async matchesCatalog(automation: AutomationRule, trigger: TriggerConfig, catalogId: string): Promise<boolean> {
+    const scoped = trigger as { catalogId?: string; catalogName?: string };
+    if (scoped.catalogId) return scoped.catalogId === catalogId;
+    if (scoped.catalogName) {
+      return (await this.resolveCatalogId(scoped.catalogName, automation.workspaceId)) === catalogId;
+    }
 
-    await this.pollItemUpdated(automation, updatedTrigger, lastChecked, lastSeen);
+    const catalogs = await this.listWorkspaceCatalogs(automation.workspaceId);
+    const catalog = catalogs.find((c) => c.id === catalogId);
+    return !!catalog && this.isCatalogInScope(trigger, catalog);
   }
 
-  private async pollStatusChanged(
-    automation: AutomationRule,
-    trigger: StatusChangedTrigger,
-    lastChecked: Date,
-    lastSeen: Record<string, any>
-  ): Promise<void> {
-    // Status is just an attribute — find the STATUS attribute and poll for changes
-    const catalogId = trigger.catalogId || await this.resolveCatalogId(trigger.catalogName, automation.workspaceId);
+  // ===========================================================================
+  // Backfill
+  // ===========================================================================
 
-    // If no specific catalog, poll all catalogs in the workspace
-    const catalogIds: string[] = [];
-    if (catalogId) {
-      catalogIds.push(catalogId);
-    } else {
-      const allCatalogs = await this.onstaqClient.listCatalogs(automation.workspaceId);
-      catalogIds.push(...allCatalogs.map((c) => c.id));
-    }
-
-    for (const catId of catalogIds) {
-      // Watch for changes to:
-      // 1. Top-level status field (tracked as "@status" in item history)
-      // 2. STATUS-type attributes (tracked by attribute name in history)
-      const watchFields: string[] = ['@status'];
-
-      const attributes = await this.onstaqClient.listAttributes(catId);
-      const statusAttr = attributes.find((a) => a.type === 'STATUS');
-      if (statusAttr) {
-        watchFields.push(statusAttr.name);
-      }
+  /**
+   * Replay item history (and comments, for item.commented) between `from` and
+   * `to` through the same matching used for pushed events, returning the
+   * earliest `limit` events the automation would have fired, oldest first.
+   * Items carry their current state, not the state at the time of the change.
+   */
+  async collectBackfillEvents(
+    automation: AutomationRule,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<{ events: TriggerEvent[]; truncated: boolean }> {
+    const trigger = automation.trigger;
+    if (!BACKFILL_TRIGGER_TYPES.includes(trigger.type)) {
+      throw new Error(`Trigger type ${trigger.type} cannot be backfilled`);
+    }
 
-      // Poll for recently updated items
-      const result = await this.onstaqClient.listItems({
-        catalogId: catId,
-        sortBy: 'updatedAt',
-        sortOrder: 'desc',
-        limit: 20,
-      });
+    const events: TriggerEvent[] = [];
+    const catalogIds = await this.resolveWatchedCatalogIds(automation, trigger);
 
-      for (const item of result.data) {
-        const updatedAt = new Date(item.updatedAt);
-        if (updatedAt <= lastChecked) continue;
-
-        const history = await this.onstaqClient.getHistory(item.id);
-        const recentChanges = history.filter((h) => new Date(h.createdAt) > lastChecked && h.action === 'UPDATED');
-
-        // Find the status change in recent history
-        let statusFrom: string | undefined;
-        let statusTo: string | undefined;
-
-        for (const h of recentChanges) {
-          const changes = (h.changes || {}) as Record<string, any>;
-          for (const field of watchFields) {
-            if (changes[field] && typeof changes[field] === 'object' && 'from' in changes[field]) {
-              statusFrom = changes[field].from;
-              statusTo = changes[field].to;
-              break;
-            }
-          }
-          if (statusTo !== undefined) break;
-        }
+    for (const catalogId of catalogIds) {
+      // Untouched since the range began or created after it ended: no history inside it
+      const items = (await listAllItems(this.onstaqClient, catalogId))
+        .filter((item) => new Date(item.updatedAt) >= from && new Date(item.createdAt) <= to);
 
-        // No status change found in recent history
-        if (statusTo === undefined) continue;
+      for (let i = 0; i < items.length; i += BACKFILL_FETCH_CONCURRENCY) {
+        const batch = items.slice(i, i + BACKFILL_FETCH_CONCURRENCY);
+        const replayed = await Promise.all(batch.map((item) => this.replayItem(automation, catalogId, item)));
 
-        // Check from/to filters from the trigger config
-        if (trigger.from && statusFrom?.toLowerCase() !== trigger.from.toLowerCase()) continue;
-        if (trigger.to && statusTo?.toLowerCase() !== trigger.to.toLowerCase()) continue;
+        for (const replay of replayed.flat()) {
+          const at = new Date(replay.occurredAt);
+          if (at < from || at > to) continue;
 
-        const hash = this.hashEvent(`status.changed:${item.id}:${item.updatedAt}`);
-        if (lastSeen[hash]) continue;
+          const event = await this.matchOnstaqEvent(automation, replay);
+          if (!event || !(await this.passesActorFilter(automation, event))) continue;
 
-        // Build previous values
-        const previousValues: Record<string, any> = {};
-        const latestChange = recentChanges[0];
-        if (latestChange?.changes) {
-          for (const [field, change] of Object.entries(latestChange.changes as Record<string, any>)) {
-            if (change && typeof change === 'object' && 'from' in change) {
-              previousValues[field] = change.from;
-            }
-          }
+          events.push({ ...event, timestamp: replay.occurredAt, backfill: true });
         }
+      }
+    }
 
-        const event: TriggerEvent = {
-          type: 'item.updated',
-          automationId: automation.id,
-          timestamp: new Date().toISOString(),
-          item,
-          previousValues,
-        };
+    // Items come in catalog order, so only the full set tells which events are earliest
+    const sorted = this.sortByTimestamp(events);
+    return { events: sorted.slice(0, limit), truncated: sorted.length > limit };
+  }
 
-        await this.handler(event);
-        lastSeen[hash] = true;
+  /**
+   * An item's history (or comments, for item.commented) as ONSTAQ events.
+   */
+  private async replayItem(automation: AutomationRule, catalogId: string, item: Item): Promise<OnstaqEvent[]> {
+    if (automation.trigger.type === 'item.commented') {
+      const comments = await this.onstaqClient.getComments(item.id);
+      return comments.map((comment) => ({
+        id: `comment:${comment.id}`,
+        type: 'item.commented',
+        workspaceId: automation.workspaceId,
+        catalogId,
+        occurredAt: comment.createdAt,
+        item,
+        comment,
+        user: comment.user,
+      }));
+    }
 
-        await this.prisma.triggerState.update({
-          where: { automationId: automation.id },
-          data: { lastSeenData: lastSeen },
-        });
-      }
+    const replayed: OnstaqEvent[] = [];
+    for (const entry of await this.onstaqClient.getHistory(item.id)) {
+      const replay = this.historyToOnstaqEvent(automation.workspaceId, item, entry);
+      if (replay) replayed.push(replay);
     }
+    return replayed;
   }
 
-  private async pollOqlMatch(
-    automation: AutomationRule,
-    trigger: OqlMatchTrigger,
-    lastSeen: Record<string, any>
-  ): Promise<void> {
-    try {
-      const result = await this.onstaqClient.executeOql(trigger.query, automation.workspaceId);
-      const currentCount = result.totalCount;
-      const prevCount = lastSeen.oqlCount ?? -1;
+  private historyToOnstaqEvent(workspaceId: string, item: Item, entry: HistoryEntry): OnstaqEvent | null {
+    const base = {
+      id: `history:${entry.id}`,
+      workspaceId,
+      catalogId: item.catalogId,
+      occurredAt: entry.createdAt,
+      item,
+      user: entry.user,
+    };
+    const changes = (entry.changes || {}) as Record<string, any>;
+
+    switch (entry.action) {
+      case 'CREATED':
+        return { ...base, type: 'item.created' };
+      case 'UPDATED':
+        return { ...base, type: 'item.updated', changes };
+      case 'REFERENCE_ADDED':
+      case 'REFERENCE_REMOVED':
+        return {
+          ...base,
+          type: entry.action === 'REFERENCE_ADDED' ? 'item.linked' : 'item.unlinked',
+          reference: {
+            id: changes.referenceId || changes.id,
+            fromItemId: item.id,
+            toItemId: changes.toItemId || changes.toItem?.id,
+            referenceKind: changes.referenceKind,
+            label: changes.label,
+            toItem: changes.toItem,
+          },
+        };
+      default:
+        return null;
+    }
+  }
 
-      let shouldTrigger = false;
+  private sortByTimestamp(events: TriggerEvent[]): TriggerEvent[] {
+    return events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
 
-      switch (trigger.triggerOn) {
-        case 'any_results':
-          shouldTrigger = currentCount > 0;
-          break;
-        case 'new_results':
-          shouldTrigger = currentCount > prevCount && prevCount >= 0;
-          break;
-        case 'count_change':
-          shouldTrigger = currentCount !== prevCount && prevCount >= 0;
-          break;
+  // ===========================================================================
+  // Leases
+  // ===========================================================================
+
+  private needsLease(automation: AutomationRule): boolean {
+    return automation.trigger.type !== 'manual' && automation.trigger.type !== 'webhook.received';
+  }
+
+  /**
+   * Renew owned leases, drop automations whose lease was lost, restart owned
+   * automations edited on another instance, and claim automations left
+   * without an owner (e.g. because the instance running them died).
+   */
+  private async syncLeases(): Promise<void> {
+    if (!this.running || this.leaseSyncRunning) return;
+    this.leaseSyncRunning = true;
+
+    try {
+      await this.loadPushWorkspaces();
+
+      const held = await this.leases.renew();
+      for (const automationId of [...this.owned.keys()]) {
+        if (held.has(automationId)) continue;
+        logger.warn(`Lost lease for automation ${automationId}, stopping it on this instance`);
+        this.deactivate(automationId);
+        this.owned.delete(automationId);
       }
 
-      if (shouldTrigger) {
-        const event: TriggerEvent = {
-          type: 'oql.match',
-          automationId: automation.id,
-          timestamp: new Date().toISOString(),
-          oqlResults: result.rows,
-        };
+      const automations = (await this.loadAutomations()).filter((a) => a.enabled && this.needsLease(a));
+      const current = new Map(automations.map((a) => [a.id, a]));
+
+      for (const [automationId, active] of [...this.owned]) {
+        const latest = current.get(automationId);
+        if (!latest) {
+          await this.stopOne(automationId);
+        } else if (latest.updatedAt !== active.updatedAt) {
+          await this.recordCronStop(automationId);
+          this.deactivate(automationId);
+          this.owned.set(automationId, latest);
+          try {
+            await this.activate(latest);
+          } catch (err: any) {
+            logger.error(`Failed to restart automation ${automationId}, will retry on lease sync: ${err.message}`);
+            await this.stopOne(automationId);
+          }
+        }
+      }
 
-        await this.handler(event);
+      for (const automation of automations) {
+        if (!this.running) break;
+        if (this.owned.has(automation.id)) continue;
+
+        try {
+          await this.startOne(automation);
+        } catch (err: any) {
+          logger.error(`Failed to start automation ${automation.id}, will retry on lease sync: ${err.message}`);
+          continue;
+        }
+        if (this.owned.has(automation.id)) {
+          logger.info(`Took over automation ${automation.id}`);
+        }
       }
+    } finally {
+      this.leaseSyncRunning = false;
+    }
+  }
 
-      // Update count in state
-      await this.prisma.triggerState.update({
-        where: { automationId: automation.id },
-        data: { lastSeenData: { ...lastSeen, oqlCount: currentCount } },
-      });
+  // ===========================================================================
+  // Actor filtering
+  // ===========================================================================
+
+  /**
+   * Drop changes made by the engine's own ONSTAQ user (unless the trigger
+   * opts out with ignoreOwnChanges: false) so rules that update the item they
+   * watch don't re-trigger themselves, then apply the trigger's actorFilter.
+   * Events without a known actor always pass.
+   */
+  private async passesActorFilter(automation: AutomationRule, event: TriggerEvent): Promise<boolean> {
+    const actorId = event.actor?.id;
+    if (!actorId) return true;
+
+    const { ignoreOwnChanges = true, actorFilter } = automation.trigger as ItemTriggerConfig;
+    if (ignoreOwnChanges && actorId === (await this.getServiceUserId())) return false;
+    if (actorFilter?.include?.length && !actorFilter.include.includes(actorId)) return false;
+    if (actorFilter?.exclude?.includes(actorId)) return false;
+    return true;
+  }
+
+  /**
+   * ONSTAQ user the engine acts as, looked up once and cached.
+   */
+  private async getServiceUserId(): Promise<string | null> {
+    if (this.serviceUserId) return this.serviceUserId;
+    try {
+      this.serviceUserId = (await this.onstaqClient.getMe()).id;
     } catch (err: any) {
-      logger.error(`OQL poll failed for automation ${automation.id}: ${err.message}`);
+      logger.warn(`Could not resolve the service account's ONSTAQ user: ${err.message}`);
     }
+    return this.serviceUserId;
   }
 
-  private async pollItemLinked(
-    automation: AutomationRule,
-    trigger: ItemLinkedTrigger,
+  // ===========================================================================
+  // Debouncing & batching
+  // ===========================================================================
+
+  /**
+   * Hand an item event to the executor, first collapsing repeats for the same
+   * item within debounceMs and then collecting events for batchWindowMs when
+   * the trigger asks for it. Held events live in memory only.
+   */
+  private async dispatch(automation: AutomationRule, event: TriggerEvent): Promise<void> {
+    if (!(await this.passesActorFilter(automation, event))) {
+      logger.debug(`Automation ${automation.id}: ${event.type} by ${event.actor?.id} filtered out by actor`);
+      return;
+    }
+
+    const { debounceMs } = automation.trigger as ItemTriggerConfig;
+    if (!debounceMs || !event.item) {
+      await this.enqueueBatch(automation, event);
+      return;
+    }
+
+    const key = `${automation.id}:${event.item.id}`;
+    const pending = this.debounced.get(key);
+    if (pending) clearTimeout(pending.timer);
+
+    const timer = setTimeout(() => {
+      this.debounced.delete(key);
+      this.enqueueBatch(automation, event).catch((err) =>
+        logger.error(`Debounced dispatch failed for automation ${automation.id}: ${err.message}`)
+      );
+    }, debounceMs);
+
+    this.debounced.set(key, { automation, event, timer });
+  }
+
+  private async enqueueBatch(automation: AutomationRule, event: TriggerEvent): Promise<void> {
+    const { batchWindowMs } = automation.trigger as ItemTriggerConfig;
+    if (!batchWindowMs) {
+      await this.handler(event);
+      return;
+    }
+
+    const batch = this.batches.get(automation.id);
+    if (batch) {
+      batch.events.push(event);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.flushBatch(automation.id).catch((err) =>
+        logger.error(`Batched dispatch failed for automation ${automation.id}: ${err.message}`)
+      );
+    }, batchWindowMs);
+
+    this.batches.set(automation.id, { automation, events: [event], timer });
+  }
+
+  /**
+   * Fire one execution for everything collected in the window. trigger.item
+   * stays the first event's item; trigger.items holds every collected item.
+   */
+  private async flushBatch(automationId: string): Promise<void> {
+    const batch = this.batches.get(automationId);
+    if (!batch) return;
+    this.batches.delete(automationId);
+    clearTimeout(batch.timer);
+
+    const items = batch.events.map((e) => e.item).filter((item): item is Item => !!item);
+    const event: TriggerEvent = {
+      ...batch.events[0],
+      timestamp: new Date().toISOString(),
+      items,
+    };
+
+    logger.info(`Automation ${automationId}: dispatching batch of ${batch.events.length} events`);
+    await this.handler(event);
+  }
+
+  /**
+   * Release held events right away, e.g. when an automation is reloaded.
+   */
+  private flushPending(automationId?: string): void {
+    for (const [key, pending] of this.debounced) {
+      if (automationId && pending.automation.id !== automationId) continue;
+      clearTimeout(pending.timer);
+      this.debounced.delete(key);
+      this.enqueueBatch(pending.automation, pending.event).catch((err) =>
+        logger.error(`Debounced dispatch failed for automation ${pending.automation.id}: ${err.message}`)
+      );
+    }
+
+    for (const id of [...this.batches.keys()]) {
+      if (automationId && id !== automationId) continue;
+      this.flushBatch(id).catch((err) =>
+        logger.error(`Batched dispatch failed for automation ${id}: ${err.message}`)
+      );
+    }
+  }
+
+  // ===========================================================================
+  // Polling
+  // ===========================================================================
+
+  private async startPolling(automation: AutomationRule, trigger: TriggerConfig): Promise<void> {
+    this.polledAutomations.set(automation.id, automation);
+    const intervalMs = this.resolvePollInterval(trigger);
+
+    if (SNAPSHOT_TRIGGER_TYPES.includes(trigger.type)) {
+      this.scheduleTimer(this.pollingTimers, automation.id, intervalMs, () =>
+        this.pollOnce(automation, trigger)
+      );
+      return;
+    }
+
+    const catalogIds = await this.resolveWatchedCatalogIds(automation, trigger);
+    if (!catalogIds.length) {
+      logger.warn(`Automation ${automation.id} has no resolvable catalog, polling skipped`);
+      return;
+    }
+
+    for (const catalogId of catalogIds) {
+      this.subscribe(catalogId, {
+        automation,
+        trigger,
+        intervalMs,
+        nextDueAt: 0,
+      });
+    }
+
+    // Workspace-scoped triggers pick up catalogs created or removed later
+    if (this.isWorkspaceScoped(trigger)) {
+      this.scheduleTimer(this.pollingTimers, automation.id, this.config.catalogCacheTtlMs, () =>
+        this.refreshWorkspaceSubscriptions(automation, trigger, intervalMs)
+      );
+    }
+  }
+
+  private async refreshWorkspaceSubscriptions(
+    automation: AutomationRule,
+    trigger: TriggerConfig,
+    intervalMs: number
+  ): Promise<void> {
+    const catalogIds = new Set(await this.resolveWatchedCatalogIds(automation, trigger));
+
+    for (const [catalogId, watcher] of this.catalogWatchers) {
+      if (watcher.subscribers.has(automation.id) && !catalogIds.has(catalogId)) {
+        this.unsubscribe(automation.id, catalogId);
+      }
+    }
+
+    for (const catalogId of catalogIds) {
+      if (this.catalogWatchers.get(catalogId)?.subscribers.has(automation.id)) continue;
+      logger.info(`Automation ${automation.id} now watching catalog ${catalogId}`);
+      this.subscribe(catalogId, { automation, trigger, intervalMs, nextDueAt: 0 });
+    }
+  }
+
+  /**
+   * Run `poll` on a self-rescheduling timer. Each cycle schedules the next one,
+   * so a slow poll never overlaps itself, and replacing or deleting the timer
+   * in `timers` ends the chain.
+   */
+  private scheduleTimer(
+    timers: Map<string, NodeJS.Timeout>,
+    key: string,
+    intervalMs: number | (() => number),
+    poll: () => Promise<void>
+  ): void {
+    const nextInterval = () => (typeof intervalMs === 'function' ? intervalMs() : intervalMs);
+
+    const schedule = (delayMs: number) => {
+      const timer = setTimeout(async () => {
+        if (!this.running || timers.get(key) !== timer) return;
+        try {
+          await poll();
+        } catch (err: any) {
+          logger.error(`Poll failed for ${key}: ${err.message}`);
+        }
+        if (timers.get(key) === timer) {
+          schedule(this.withJitter(nextInterval()));
+        }
+      }, delayMs);
+
+      timers.set(key, timer);
+    };
+
+    // Spread first polls across one interval so a restart doesn't hit ONSTAQ all at once
+    schedule(Math.floor(Math.random() * nextInterval()));
+  }
+
+  /**
+   * Per-trigger poll interval (oql.match also accepts the legacy `interval`),
+   * falling back to the default and never below the configured minimum.
+   */
+  private resolvePollInterval(trigger: TriggerConfig): number {
+    const polling = trigger as { pollIntervalMs?: number; interval?: number };
+    const requested = polling.pollIntervalMs ?? polling.interval ?? this.config.defaultPollIntervalMs;
+    return Math.max(requested, this.config.minPollIntervalMs);
+  }
+
+  private withJitter(intervalMs: number): number {
+    const spread = intervalMs * this.config.pollJitterRatio;
+    return Math.max(this.config.minPollIntervalMs, Math.round(intervalMs + (Math.random() * 2 - 1) * spread));
+  }
+
+  private async resolveWatchedCatalogIds(automation: AutomationRule, trigger: TriggerConfig): Promise<string[]> {
+    const scoped = trigger as { catalogId?: string; catalogName?: string };
+    const catalogId = scoped.catalogId || await this.resolveCatalogId(scoped.catalogName, automation.workspaceId);
+    if (catalogId) return [catalogId];
+    if (!this.isWorkspaceScoped(trigger)) return [];
+
+    const catalogs = await this.listWorkspaceCatalogs(automation.workspaceId);
+    return catalogs.filter((c) => this.isCatalogInScope(trigger, c)).map((c) => c.id);
+  }
+
+  private isWorkspaceScoped(trigger: TriggerConfig): boolean {
+    const scoped = trigger as { catalogId?: string; catalogName?: string };
+    return !scoped.catalogId && !scoped.catalogName;
+  }
+
+  /**
+   * Apply a workspace-scoped trigger's include/exclude lists, which may name
+   * catalogs by ID or (case-insensitively) by name.
+   */
+  private isCatalogInScope(trigger: TriggerConfig, catalog: Catalog): boolean {
+    const { includeCatalogs, excludeCatalogs } = trigger as ItemTriggerConfig;
+    const matches = (ref: string) => ref === catalog.id || ref.toLowerCase() === catalog.name.toLowerCase();
+
+    if (includeCatalogs?.length && !includeCatalogs.some(matches)) return false;
+    if (excludeCatalogs?.some(matches)) return false;
+    return true;
+  }
+
+  // ---- Shared catalog watchers ----
+
+  private subscribe(catalogId: string, subscriber: CatalogSubscriber): void {
+    let watcher = this.catalogWatchers.get(catalogId);
+    const isNew = !watcher;
+    if (!watcher) {
+      watcher = new CatalogWatcher(this.onstaqClient, catalogId);
+      this.catalogWatchers.set(catalogId, watcher);
+    }
+
+    watcher.subscribers.set(subscriber.automation.id, subscriber);
+
+    if (isNew) {
+      const w = watcher;
+      this.scheduleTimer(this.watcherTimers, catalogId, () => w.intervalMs, () => this.runCatalogCycle(w));
+    }
+  }
+
+  private unsubscribe(automationId: string, onlyCatalogId?: string): void {
+    for (const [catalogId, watcher] of this.catalogWatchers) {
+      if (onlyCatalogId && catalogId !== onlyCatalogId) continue;
+      if (!watcher.subscribers.delete(automationId)) continue;
+      if (watcher.subscribers.size > 0) continue;
+
+      const timer = this.watcherTimers.get(catalogId);
+      if (timer) clearTimeout(timer);
+      this.watcherTimers.delete(catalogId);
+      this.catalogWatchers.delete(catalogId);
+    }
+  }
+
+  /**
+   * One watcher cycle: fetch the catalog's changes once, starting from the
+   * oldest cursor among the due subscribers, then let each subscriber apply its
+   * own filters from its own cursor.
+   */
+  private async runCatalogCycle(watcher: CatalogWatcher): Promise<void> {
+    const now = Date.now();
+    const due = watcher.dueSubscribers(now);
+    if (!due.length) return;
+
+    const states = new Map<string, { state: any; pollState: any }>();
+    let since: PollCursor | undefined;
+
+    for (const subscriber of due) {
+      const state = await this.getOrCreateState(subscriber.automation.id);
+      const pollState = await this.getOrCreatePollState(subscriber.automation.id, watcher.catalogId);
+      states.set(subscriber.automation.id, { state, pollState });
+
+      const field = this.cursorField(subscriber.trigger);
+      if (!field) continue;
+      const cursors = (pollState.cursors as Record<string, PollCursor>) || {};
+      const cursor = this.cursorFor(cursors, field, state.lastCheckedAt);
+      if (!since || compareCursors(cursor, since) < 0) since = cursor;
+    }
+
+    // Taken before the fetch: anything changed after this point shows up next cycle
+    const fetchStartedAt = new Date();
+    const changes = await watcher.fetchChanges(since || { at: fetchStartedAt.toISOString(), id: '' });
+
+    for (const subscriber of due) {
+      // Ticks are jittered, so an early tick must still find the subscriber due
+      subscriber.nextDueAt = now + subscriber.intervalMs * (1 - this.config.pollJitterRatio);
+      try {
+        const { state, pollState } = states.get(subscriber.automation.id)!;
+        await this.processCatalogChanges(subscriber, state, pollState, changes, fetchStartedAt);
+      } catch (err: any) {
+        logger.error(`Poll failed for automation ${subscriber.automation.id}: ${err.message}`);
+      }
+    }
+  }
+
+  private async processCatalogChanges(
+    subscriber: CatalogSubscriber,
+    state: any,
+    pollState: any,
+    changes: CatalogChangeSet,
+    fetchStartedAt: Date
+  ): Promise<void> {
+    const { automation, trigger } = subscriber;
+    const lastCheckedAt: Date = state.lastCheckedAt;
+    const lastSeenData = (state.lastSeenData as Record<string, any>) || {};
+    const cursors = (pollState.cursors as Record<string, PollCursor>) || {};
+
+    // Event hashes used to accumulate here; they now live in the dedup table
+    const legacyHashes = Object.keys(lastSeenData).filter((key) => LEGACY_HASH_KEY.test(key));
+    for (const key of legacyHashes) {
+      delete lastSeenData[key];
+    }
+
+    switch (trigger.type) {
+      case 'item.created':
+        await this.pollItemCreated(automation, changes, lastCheckedAt, cursors);
+        break;
+      case 'item.updated':
+        await this.pollItemUpdated(automation, trigger as ItemUpdatedTrigger, changes, lastCheckedAt, cursors);
+        break;
+      case 'item.deleted':
+        await this.pollItemDeleted(automation, changes, pollState);
+        break;
+      case 'attribute.changed':
+        await this.pollAttributeChanged(automation, trigger as AttributeChangedTrigger, changes, lastCheckedAt, cursors);
+        break;
+      case 'status.changed':
+        await this.pollStatusChanged(automation, trigger as StatusChangedTrigger, changes, lastCheckedAt, cursors);
+        break;
+      case 'reference.added':
+        await this.pollReferenceAdded(automation, trigger as ReferenceAddedTrigger, changes, lastCheckedAt, cursors);
+        break;
+      case 'item.linked':
+        await this.pollItemLinked(automation, trigger as ItemLinkedTrigger, changes, lastCheckedAt, cursors);
+        break;
+      case 'item.unlinked':
+        await this.pollItemUnlinked(automation, trigger as ItemUnlinkedTrigger, changes, lastCheckedAt, cursors);
+        break;
+      case 'item.commented':
+        await this.pollItemCommented(automation, changes, lastCheckedAt, cursors);
+        break;
+    }
+
+    // A quiet catalog still needs a cursor, or the next cycle falls back to
+    // lastCheckedAt and changes made while this cycle ran would be skipped
+    const field = this.cursorField(trigger);
+    if (field) {
+      if (!cursors[field]) cursors[field] = { at: fetchStartedAt.toISOString(), id: '' };
+      await this.saveCursors(automation.id, changes.catalogId, cursors);
+    }
+
+    // Update trigger state
+    await this.prisma.triggerState.update({
+      where: { automationId: automation.id },
+      data: {
+        lastCheckedAt: fetchStartedAt,
+        ...(legacyHashes.length ? { lastSeenData } : {}),
+      },
+    });
+  }
+
+  private async pollOnce(automation: AutomationRule, trigger: TriggerConfig): Promise<void> {
+    const state = await this.getOrCreateState(automation.id);
+    const lastSeenData = (state.lastSeenData as Record<string, any>) || {};
+
+    switch (trigger.type) {
+      case 'oql.match':
+        await this.pollOqlMatch(automation, trigger as OqlMatchTrigger, lastSeenData);
+        break;
+      case 'date.reached':
+        await this.pollDateReached(automation, trigger as DateReachedTrigger, lastSeenData);
+        break;
+      case 'member.added':
+      case 'member.removed':
+      case 'member.role_changed':
+        await this.pollMembership(automation, trigger, lastSeenData);
+        break;
+      case 'schema.catalog_created':
+      case 'schema.attribute_added':
+      case 'schema.attribute_changed':
+        await this.pollSchema(automation, trigger, lastSeenData);
+        break;
+    }
+
+    await this.prisma.triggerState.update({
+      where: { automationId: automation.id },
+      data: { lastCheckedAt: new Date() },
+    });
+  }
+
+  private async pollItemCreated(
+    automation: AutomationRule,
+    changes: CatalogChangeSet,
+    lastChecked: Date,
+    cursors: Record<string, PollCursor>
+  ): Promise<void> {
+    const cursorKey = 'createdAt';
+    const cursor = this.cursorFor(cursors, cursorKey, lastChecked);
+
+    for (const item of changes.itemsAfter(cursor, 'createdAt')) {
+      cursors[cursorKey] = { at: item.createdAt, id: item.id };
+
+      // Dedup check
+      if (!(await this.claimEvent(automation.id, this.changeKey('item.created', item)))) continue;
+
+      const event: TriggerEvent = {
+        type: 'item.created',
+        automationId: automation.id,
+        timestamp: new Date().toISOString(),
+        item,
+        actor: item.createdBy,
+      };
+
+      await this.dispatch(automation, event);
+
+      // Save cursor
+      await this.saveCursors(automation.id, changes.catalogId, cursors);
+    }
+  }
+
+  private async pollItemUpdated(
+    automation: AutomationRule,
+    trigger: ItemUpdatedTrigger,
+    changes: CatalogChangeSet,
     lastChecked: Date,
+    cursors: Record<string, PollCursor>
+  ): Promise<void> {
+    const cursorKey = 'updatedAt';
+    const cursor = this.cursorFor(cursors, cursorKey, lastChecked);
+    const since = new Date(cursor.at);
+
+    for (const item of changes.itemsAfter(cursor, 'updatedAt')) {
+      cursors[cursorKey] = { at: item.updatedAt, id: item.id };
+
+      // If specific attributes are being watched, check history
+      if (trigger.attributes?.length) {
+        const history = await changes.getHistory(item.id);
+        const recentChanges = history.filter((h) => new Date(h.createdAt) > since && h.action === 'UPDATED');
+
+        const relevant = recentChanges.some((h) => {
+          const changedFields = Object.keys(h.changes || {});
+          return trigger.attributes!.some((a) => changedFields.includes(a));
+        });
+
+        if (!relevant) continue;
+      }
+
+      if (!(await this.claimEvent(automation.id, this.changeKey('item.updated', item, item.updatedAt)))) continue;
+
+      // Get previous values from history
+      const history = await changes.getHistory(item.id);
+      const latestChange = history.find((h) => h.action === 'UPDATED');
+      const previousValues = this.extractPreviousValues(latestChange?.changes);
+
+      const event: TriggerEvent = {
+        type: 'item.updated',
+        automationId: automation.id,
+        timestamp: new Date().toISOString(),
+        item,
+        previousValues,
+        actor: latestChange?.user || item.updatedBy,
+      };
+
+      await this.dispatch(automation, event);
+
+      await this.saveCursors(automation.id, changes.catalogId, cursors);
+    }
+  }
+
+  private async pollItemDeleted(
+    automation: AutomationRule,
+    changes: CatalogChangeSet,
+    pollState: any
+  ): Promise<void> {
+    // Deletions leave no history behind, so diff the full item list against
+    // the snapshot from the previous poll. The snapshot keeps enough of the
+    // last known item for the event to expose its key and attributes.
+    const items = await changes.listAllItems();
+    const snapshot: Record<string, ItemSnapshot> = {};
+    for (const { id, key, label, catalogId, attributeValues, updatedAt } of items) {
+      snapshot[id] = { id, key, label, catalogId, attributeValues, updatedAt };
+    }
+
+    const previous = pollState.snapshot as Record<string, ItemSnapshot> | null;
+
+    // First poll for this catalog only records the baseline
+    if (previous) {
+      for (const [itemId, lastKnown] of Object.entries(previous)) {
+        if (snapshot[itemId]) continue;
+
+        // Still there, just missed by a listing that shifted mid-scan
+        if (!(await this.isItemDeleted(itemId))) {
+          snapshot[itemId] = lastKnown;
+          continue;
+        }
+
+        if (!(await this.claimEvent(automation.id, this.changeKey('item.deleted', lastKnown)))) continue;
+
+        const event: TriggerEvent = {
+          type: 'item.deleted',
+          automationId: automation.id,
+          timestamp: new Date().toISOString(),
+          item: lastKnown as Item,
+        };
+
+        await this.dispatch(automation, event);
+      }
+    }
+
+    // Most cycles see the same items at the same versions; skip the write then
+    const current = Object.values(snapshot);
+    const unchanged = previous
+      && Object.keys(previous).length === current.length
+      && current.every((item) => previous[item.id]?.updatedAt === item.updatedAt);
+    if (unchanged) return;
+
+    await this.prisma.catalogPollState.update({
+      where: { automationId_catalogId: { automationId: automation.id, catalogId: changes.catalogId } },
+      data: { snapshot },
+    });
+  }
+
+  /**
+   * True when ONSTAQ answers 404 for the item. Absence from a listing alone
+   * isn't proof, and a false item.deleted can't be taken back once claimed.
+   */
+  private async isItemDeleted(itemId: string): Promise<boolean> {
+    try {
+      await this.onstaqClient.getItem(itemId);
+      return false;
+    } catch (err: any) {
+      if (err.response?.status === 404) return true;
+      throw err;
+    }
+  }
+
+  private async pollAttributeChanged(
+    automation: AutomationRule,
+    trigger: AttributeChangedTrigger,
+    changes: CatalogChangeSet,
+    lastChecked: Date,
+    cursors: Record<string, PollCursor>
+  ): Promise<void> {
+    const cursorKey = 'updatedAt';
+    const cursor = this.cursorFor(cursors, cursorKey, lastChecked);
+    const since = new Date(cursor.at);
+
+    for (const item of changes.itemsAfter(cursor, 'updatedAt')) {
+      cursors[cursorKey] = { at: item.updatedAt, id: item.id };
+
+      const history = await changes.getHistory(item.id);
+      const recentChanges = history.filter((h) => new Date(h.createdAt) > since && h.action === 'UPDATED');
+
+      // Latest change to the attribute whose old/new values pass the filters
+      const entry = recentChanges.find((h) => {
+        const change = (h.changes || {})[trigger.attributeName];
+        return change && typeof change === 'object' && 'from' in change
+          && this.matchesValue(change.from, trigger.from)
+          && this.matchesValue(change.to, trigger.to);
+      });
+      if (!entry) continue;
+
+      if (!(await this.claimEvent(automation.id, this.changeKey('attribute.changed', item, item.updatedAt)))) continue;
+
+      const event: TriggerEvent = {
+        type: 'item.updated',
+        automationId: automation.id,
+        timestamp: new Date().toISOString(),
+        item,
+        previousValues: this.extractPreviousValues(entry.changes),
+        actor: entry.user,
+      };
+
+      await this.dispatch(automation, event);
+
+      await this.saveCursors(automation.id, changes.catalogId, cursors);
+    }
+  }
+
+  private async pollStatusChanged(
+    automation: AutomationRule,
+    trigger: StatusChangedTrigger,
+    changes: CatalogChangeSet,
+    lastChecked: Date,
+    cursors: Record<string, PollCursor>
+  ): Promise<void> {
+    // Status is just an attribute — find the STATUS attribute and poll for changes
+    const watchFields = await this.getStatusFields(changes.catalogId);
+
+    const cursorKey = 'updatedAt';
+    const cursor = this.cursorFor(cursors, cursorKey, lastChecked);
+    const since = new Date(cursor.at);
+
+    for (const item of changes.itemsAfter(cursor, 'updatedAt')) {
+      cursors[cursorKey] = { at: item.updatedAt, id: item.id };
+
+      const history = await changes.getHistory(item.id);
+      const recentChanges = history.filter((h) => new Date(h.createdAt) > since && h.action === 'UPDATED');
+
+      // Find the status change in recent history
+      let transition: StatusTransition | undefined;
+      let statusEntry: HistoryEntry | undefined;
+
+      for (const h of recentChanges) {
+        const entryChanges = (h.changes || {}) as Record<string, any>;
+        const field = watchFields.find((f) =>
+          entryChanges[f] && typeof entryChanges[f] === 'object' && 'from' in entryChanges[f]);
+        if (field) {
+          transition = { from: entryChanges[field].from ?? null, to: entryChanges[field].to ?? null, field };
+          statusEntry = h;
+          break;
+        }
+      }
+
+      // No status change found in recent history
+      if (!transition || !statusEntry) continue;
+      const { from: statusFrom, to: statusTo } = transition;
+
+      // Check from/to filters from the trigger config
+      if (!this.matchesValue(statusFrom, trigger.from) || !this.matchesValue(statusTo, trigger.to)) continue;
+
+      if (!(await this.claimEvent(automation.id, this.changeKey('status.changed', item, item.updatedAt)))) continue;
+
+      const event: TriggerEvent = {
+        type: 'status.changed',
+        automationId: automation.id,
+        timestamp: new Date().toISOString(),
+        item,
+        previousValues: this.extractPreviousValues(statusEntry.changes),
+        actor: statusEntry.user,
+        transition,
+      };
+
+      await this.dispatch(automation, event);
+
+      await this.saveCursors(automation.id, changes.catalogId, cursors);
+    }
+  }
+
+  private async pollOqlMatch(
+    automation: AutomationRule,
+    trigger: OqlMatchTrigger,
+    lastSeen: Record<string, any>
+  ): Promise<void> {
+    try {
+      const result = await this.onstaqClient.executeOql(trigger.query, automation.workspaceId);
+      const currentCount = result.totalCount;
+      const prevCount = lastSeen.oqlCount ?? -1;
+
+      // Row identities from the previous poll; absent until the first diff-aware poll
+      const rowsByKey = new Map(result.rows.map((row) => [this.oqlRowKey(trigger, row), row]));
+      const prevKeys: string[] | undefined = lastSeen.oqlRowKeys;
+      const prevKeySet = new Set(prevKeys || []);
+      const addedRows = prevKeys ? [...rowsByKey].filter(([key]) => !prevKeySet.has(key)).map(([, row]) => row) : [];
+
+      // Removed rows are reported as last seen, so rows_removed keeps a snapshot
+      const prevRows: Record<string, Record<string, any>> = lastSeen.oqlRows || {};
+      const removedRows = prevKeys
+        ? prevKeys.filter((key) => !rowsByKey.has(key)).map((key) => prevRows[key] || { [trigger.keyColumn || 'id']: key })
+        : [];
+
+      let shouldTrigger = false;
+      let oqlResults = result.rows;
+
+      switch (trigger.triggerOn) {
+        case 'any_results':
+          shouldTrigger = currentCount > 0;
+          break;
+        case 'new_results':
+          // Counts miss a row leaving while another enters, so compare identities once known
+          shouldTrigger = prevKeys ? addedRows.length > 0 : currentCount > prevCount && prevCount >= 0;
+          break;
+        case 'count_change':
+          shouldTrigger = currentCount !== prevCount && prevCount >= 0;
+          break;
+        case 'rows_added':
+          shouldTrigger = addedRows.length > 0;
+          oqlResults = addedRows;
+          break;
+        case 'rows_removed':
+          shouldTrigger = removedRows.length > 0;
+          oqlResults = removedRows;
+          break;
+      }
+
+      if (shouldTrigger && trigger.triggerOn === 'rows_added' && trigger.perRow) {
+        for (const row of addedRows) {
+          const event: TriggerEvent = {
+            type: 'oql.match',
+            automationId: automation.id,
+            timestamp: new Date().toISOString(),
+            item: await this.fetchOqlRowItem(row),
+            oqlResults: [row],
+          };
+
+          await this.handler(event);
+        }
+      } else if (shouldTrigger) {
+        const event: TriggerEvent = {
+          type: 'oql.match',
+          automationId: automation.id,
+          timestamp: new Date().toISOString(),
+          oqlResults,
+        };
+
+        await this.handler(event);
+      }
+
+      // Update count and row identities in state
+      const nextSeen: Record<string, any> = { ...lastSeen, oqlCount: currentCount, oqlRowKeys: [...rowsByKey.keys()] };
+      if (trigger.triggerOn === 'rows_removed') {
+        nextSeen.oqlRows = Object.fromEntries(rowsByKey);
+      } else {
+        delete nextSeen.oqlRows;
+      }
+
+      await this.prisma.triggerState.update({
+        where: { automationId: automation.id },
+        data: { lastSeenData: nextSeen },
+      });
+    } catch (err: any) {
+      logger.error(`OQL poll failed for automation ${automation.id}: ${err.message}`);
+    }
+  }
+
+  private async pollDateReached(
+    automation: AutomationRule,
+    trigger: DateReachedTrigger,
     lastSeen: Record<string, any>
   ): Promise<void> {
     const catalogId = trigger.catalogId || await this.resolveCatalogId(trigger.catalogName, automation.workspaceId);
-    if (!catalogId) return;
-
-    // Poll recently updated items and check history for reference additions
-    const result = await this.onstaqClient.listItems({
-      catalogId,
-      sortBy: 'updatedAt',
-      sortOrder: 'desc',
-      limit: 20,
+    if (!catalogId) {
+      logger.warn(`Automation ${automation.id} has no resolvable catalog for date.reached`);
+      return;
+    }
+
+    const offsetMs = parseOffset(trigger.offset);
+    const now = Date.now();
+    const items = await listAllItems(this.onstaqClient, catalogId);
+
+    // Date value each item last fired for; a different value re-arms the item
+    const previous: Record<string, string> | undefined = lastSeen.dateFired;
+    const fired: Record<string, string> = {};
+
+    for (const item of items) {
+      const value = item.attributeValues?.[trigger.attributeName];
+      if (value === null || value === undefined || value === '') continue;
+
+      const dateMs = new Date(value).getTime();
+      if (isNaN(dateMs)) continue;
+
+      const dateValue = String(value);
+      const fireAt = dateMs + offsetMs;
+      if (fireAt > now) continue;
+
+      fired[item.id] = dateValue;
+
+      // First poll only records dates already past, so enabling the trigger
+      // doesn't fire for every historical date in the catalog
+      if (!previous || previous[item.id] === dateValue) continue;
+
+      if (!(await this.claimEvent(automation.id, `date.reached:${item.id}:${dateValue}`))) continue;
+
+      const event: TriggerEvent = {
+        type: 'date.reached',
+        automationId: automation.id,
+        timestamp: new Date().toISOString(),
+        item,
+        scheduleTime: new Date(fireAt).toISOString(),
+      };
+
+      await this.handler(event);
+    }
+
+    await this.prisma.triggerState.update({
+      where: { automationId: automation.id },
+      data: { lastSeenData: { ...lastSeen, dateFired: fired } },
+    });
+  }
+
+  /**
+   * Diff workspace membership against the snapshot from the previous poll.
+   * The snapshot keeps whole member records so removals can still expose the
+   * departed user's name and email.
+   */
+  private async pollMembership(
+    automation: AutomationRule,
+    trigger: TriggerConfig,
+    lastSeen: Record<string, any>
+  ): Promise<void> {
+    const members = await this.onstaqClient.listMembers(automation.workspaceId);
+    const snapshot: Record<string, WorkspaceMember> = {};
+    for (const member of members) {
+      snapshot[member.userId] = member;
+    }
+
+    const previous: Record<string, WorkspaceMember> | undefined = lastSeen.members;
+    const events: TriggerEvent[] = [];
+    const base = { automationId: automation.id, timestamp: new Date().toISOString() };
+
+    // First poll only records the baseline
+    if (previous) {
+      switch (trigger.type) {
+        case 'member.added': {
+          const { role } = trigger as MemberAddedTrigger;
+          for (const member of members) {
+            if (previous[member.userId] || (role && member.workspaceRole !== role)) continue;
+            events.push({ ...base, type: 'member.added', member });
+          }
+          break;
+        }
+        case 'member.removed': {
+          const { role } = trigger as MemberRemovedTrigger;
+          for (const member of Object.values(previous)) {
+            if (snapshot[member.userId] || (role && member.workspaceRole !== role)) continue;
+            events.push({ ...base, type: 'member.removed', member });
+          }
+          break;
+        }
+        case 'member.role_changed': {
+          const { from, to } = trigger as MemberRoleChangedTrigger;
+          for (const member of members) {
+            const before = previous[member.userId];
+            if (!before || before.workspaceRole === member.workspaceRole) continue;
+            if ((from && before.workspaceRole !== from) || (to && member.workspaceRole !== to)) continue;
+            events.push({
+              ...base,
+              type: 'member.role_changed',
+              member,
+              previousValues: { workspaceRole: before.workspaceRole },
+            });
+          }
+          break;
+        }
+      }
+    }
+
+    for (const event of events) {
+      await this.handler(event);
+    }
+
+    await this.prisma.triggerState.update({
+      where: { automationId: automation.id },
+      data: { lastSeenData: { ...lastSeen, members: snapshot } },
+    });
+  }
+
+  /**
+   * Diff the workspace schema against the snapshot from the previous poll.
+   * Only a catalog's own attributes are compared, so a change to an inherited
+   * attribute fires once for the catalog that defines it.
+   */
+  private async pollSchema(
+    automation: AutomationRule,
+    trigger: TriggerConfig,
+    lastSeen: Record<string, any>
+  ): Promise<void> {
+    const { catalogs } = await this.onstaqClient.getWorkspaceSchema(automation.workspaceId);
+
+    type CatalogSnapshot = { catalog: Catalog; attributes: Record<string, Attribute> };
+    const snapshot: Record<string, CatalogSnapshot> = {};
+    for (const { allAttributes, attributes, childTypes, parentType, inheritedAttributes, _count, ...catalog } of catalogs) {
+      const own = (attributes || allAttributes).filter((a) => a.catalogId === catalog.id);
+      snapshot[catalog.id] = {
+        catalog,
+        attributes: Object.fromEntries(own.map((a) => [a.id, a])),
+      };
+    }
+
+    const previous: Record<string, CatalogSnapshot> | undefined = lastSeen.schema;
+    const scoped = trigger as { catalogId?: string; catalogName?: string; attributeName?: string };
+    const scopedCatalogId = scoped.catalogId || await this.resolveCatalogId(scoped.catalogName, automation.workspaceId);
+    const events: TriggerEvent[] = [];
+    const base = { automationId: automation.id, timestamp: new Date().toISOString() };
+
+    // First poll only records the baseline
+    if (previous) {
+      for (const { catalog, attributes } of Object.values(snapshot)) {
+        const before = previous[catalog.id];
+
+        if (trigger.type === 'schema.catalog_created') {
+          if (!before) {
+            events.push({ ...base, type: trigger.type, schemaChange: { catalog, before: null, after: catalog } });
+          }
+          continue;
+        }
+
+        // Attributes of a brand-new catalog are part of its creation, not additions
+        if (!before || (scopedCatalogId && catalog.id !== scopedCatalogId)) continue;
+
+        for (const attribute of Object.values(attributes)) {
+          const previousAttribute = before.attributes[attribute.id];
+
+          if (trigger.type === 'schema.attribute_added' && !previousAttribute) {
+            events.push({
+              ...base,
+              type: trigger.type,
+              schemaChange: { catalog, attribute, before: null, after: attribute },
+            });
+          }
+
+          if (trigger.type === 'schema.attribute_changed' && previousAttribute) {
+            if (scoped.attributeName && ![attribute.name, previousAttribute.name].some(
+              (name) => name.toLowerCase() === scoped.attributeName!.toLowerCase())) continue;
+
+            const changedFields = this.diffDefinition(previousAttribute, attribute, IGNORED_ATTRIBUTE_FIELDS);
+            if (!changedFields.length) continue;
+
+            events.push({
+              ...base,
+              type: trigger.type,
+              schemaChange: { catalog, attribute, before: previousAttribute, after: attribute, changedFields },
+            });
+          }
+        }
+      }
+    }
+
+    for (const event of events) {
+      await this.handler(event);
+    }
+
+    await this.prisma.triggerState.update({
+      where: { automationId: automation.id },
+      data: { lastSeenData: { ...lastSeen, schema: snapshot } },
     });
+  }
+
+  private async pollReferenceAdded(
+    automation: AutomationRule,
+    trigger: ReferenceAddedTrigger,
+    changes: CatalogChangeSet,
+    lastChecked: Date,
+    cursors: Record<string, PollCursor>
+  ): Promise<void> {
+    const cursorKey = 'updatedAt';
+    const cursor = this.cursorFor(cursors, cursorKey, lastChecked);
+    const since = new Date(cursor.at);
+
+    for (const item of changes.itemsAfter(cursor, 'updatedAt')) {
+      cursors[cursorKey] = { at: item.updatedAt, id: item.id };
+
+      const history = await changes.getHistory(item.id);
+      const refAdds = history.filter(
+        (h) => new Date(h.createdAt) > since && h.action === 'REFERENCE_ADDED'
+      );
+
+      for (const entry of refAdds) {
+        const reference = await this.buildTriggerReference(entry);
+        if (trigger.referenceKind && reference.kind && reference.kind !== trigger.referenceKind) continue;
+
+        if (!(await this.claimEvent(automation.id, this.changeKey('reference.added', item, reference.id ?? (entry.id || entry.createdAt))))) continue;
 
-    for (const item of result.data) {
-      const updatedAt = new Date(item.updatedAt);
-      if (updatedAt <= lastChecked) continue;
+        const event: TriggerEvent = {
+          type: 'reference.added',
+          automationId: automation.id,
+          timestamp: new Date().toISOString(),
+          item,
+          reference,
+          actor: entry.user,
+        };
+
+        await this.dispatch(automation, event);
+
+        await this.saveCursors(automation.id, changes.catalogId, cursors);
+      }
+    }
+  }
+
+  private async pollItemLinked(
+    automation: AutomationRule,
+    trigger: ItemLinkedTrigger,
+    changes: CatalogChangeSet,
+    lastChecked: Date,
+    cursors: Record<string, PollCursor>
+  ): Promise<void> {
+    // Check history of updated items for reference additions
+    const cursorKey = 'updatedAt';
+    const cursor = this.cursorFor(cursors, cursorKey, lastChecked);
+    const since = new Date(cursor.at);
 
-      const history = await this.onstaqClient.getHistory(item.id);
+    for (const item of changes.itemsAfter(cursor, 'updatedAt')) {
+      cursors[cursorKey] = { at: item.updatedAt, id: item.id };
+
+      const history = await changes.getHistory(item.id);
       const refAdds = history.filter(
-        (h) => new Date(h.createdAt) > lastChecked && h.action === 'REFERENCE_ADDED'
+        (h) => new Date(h.createdAt) > since && h.action === 'REFERENCE_ADDED'
       );
 
       for (const entry of refAdds) {
@@ -533,23 +1781,21 @@ export class TriggerManager {
           if (kind && kind !== trigger.referenceKind) continue;
         }
 
-        const hash = this.hashEvent(`item.linked:${item.id}:${entry.id || entry.createdAt}`);
-        if (lastSeen[hash]) continue;
+        const reference = await this.buildTriggerReference(entry);
+        if (!(await this.claimEvent(automation.id, this.changeKey('item.linked', item, reference.id ?? (entry.id || entry.createdAt))))) continue;
 
         const event: TriggerEvent = {
           type: 'item.linked',
           automationId: automation.id,
           timestamp: new Date().toISOString(),
           item,
+          reference,
+          actor: entry.user,
         };
 
-        await this.handler(event);
-        lastSeen[hash] = true;
+        await this.dispatch(automation, event);
 
-        await this.prisma.triggerState.update({
-          where: { automationId: automation.id },
-          data: { lastSeenData: lastSeen },
-        });
+        await this.saveCursors(automation.id, changes.catalogId, cursors);
       }
     }
   }
@@ -557,26 +1803,20 @@ export class TriggerManager {
   private async pollItemUnlinked(
     automation: AutomationRule,
     trigger: ItemUnlinkedTrigger,
+    changes: CatalogChangeSet,
     lastChecked: Date,
-    lastSeen: Record<string, any>
+    cursors: Record<string, PollCursor>
   ): Promise<void> {
-    const catalogId = trigger.catalogId || await this.resolveCatalogId(trigger.catalogName, automation.workspaceId);
-    if (!catalogId) return;
-
-    const result = await this.onstaqClient.listItems({
-      catalogId,
-      sortBy: 'updatedAt',
-      sortOrder: 'desc',
-      limit: 20,
-    });
+    const cursorKey = 'updatedAt';
+    const cursor = this.cursorFor(cursors, cursorKey, lastChecked);
+    const since = new Date(cursor.at);
 
-    for (const item of result.data) {
-      const updatedAt = new Date(item.updatedAt);
-      if (updatedAt <= lastChecked) continue;
+    for (const item of changes.itemsAfter(cursor, 'updatedAt')) {
+      cursors[cursorKey] = { at: item.updatedAt, id: item.id };
 
-      const history = await this.onstaqClient.getHistory(item.id);
+      const history = await changes.getHistory(item.id);
       const refRemoves = history.filter(
-        (h) => new Date(h.createdAt) > lastChecked && h.action === 'REFERENCE_REMOVED'
+        (h) => new Date(h.createdAt) > since && h.action === 'REFERENCE_REMOVED'
       );
 
       for (const entry of refRemoves) {
@@ -585,69 +1825,57 @@ export class TriggerManager {
           if (kind && kind !== trigger.referenceKind) continue;
         }
 
-        const hash = this.hashEvent(`item.unlinked:${item.id}:${entry.id || entry.createdAt}`);
-        if (lastSeen[hash]) continue;
+        const reference = await this.buildTriggerReference(entry);
+        if (!(await this.claimEvent(automation.id, this.changeKey('item.unlinked', item, reference.id ?? (entry.id || entry.createdAt))))) continue;
 
         const event: TriggerEvent = {
           type: 'item.unlinked',
           automationId: automation.id,
           timestamp: new Date().toISOString(),
           item,
+          reference,
+          actor: entry.user,
         };
 
-        await this.handler(event);
-        lastSeen[hash] = true;
+        await this.dispatch(automation, event);
 
-        await this.prisma.triggerState.update({
-          where: { automationId: automation.id },
-          data: { lastSeenData: lastSeen },
-        });
+        await this.saveCursors(automation.id, changes.catalogId, cursors);
       }
     }
   }
 
   private async pollItemCommented(
     automation: AutomationRule,
-    trigger: ItemCommentedTrigger,
+    changes: CatalogChangeSet,
     lastChecked: Date,
-    lastSeen: Record<string, any>
+    cursors: Record<string, PollCursor>
   ): Promise<void> {
-    const catalogId = trigger.catalogId || await this.resolveCatalogId(trigger.catalogName, automation.workspaceId);
-    if (!catalogId) return;
-
-    // Poll recently updated items and check for new comments
-    const result = await this.onstaqClient.listItems({
-      catalogId,
-      sortBy: 'updatedAt',
-      sortOrder: 'desc',
-      limit: 20,
-    });
+    // Check updated items for new comments
+    const cursorKey = 'updatedAt';
+    const cursor = this.cursorFor(cursors, cursorKey, lastChecked);
+    const since = new Date(cursor.at);
 
-    for (const item of result.data) {
-      const updatedAt = new Date(item.updatedAt);
-      if (updatedAt <= lastChecked) continue;
+    for (const item of changes.itemsAfter(cursor, 'updatedAt')) {
+      cursors[cursorKey] = { at: item.updatedAt, id: item.id };
 
-      const comments = await this.onstaqClient.getComments(item.id);
-      const newComments = comments.filter((c) => new Date(c.createdAt) > lastChecked);
+      const comments = await changes.getComments(item.id);
+      const newComments = comments.filter((c) => new Date(c.createdAt) > since);
 
       for (const comment of newComments) {
-        const hash = this.hashEvent(`item.commented:${item.id}:${comment.id}`);
-        if (lastSeen[hash]) continue;
+        if (!(await this.claimEvent(automation.id, this.changeKey('item.commented', item, comment.id)))) continue;
 
         const event: TriggerEvent = {
           type: 'item.commented',
           automationId: automation.id,
           timestamp: new Date().toISOString(),
           item,
+          comment,
+          actor: comment.user,
         };
 
-        await this.handler(event);
-        lastSeen[hash] = true;
+        await this.dispatch(automation, event);
 
-        await this.prisma.triggerState.update({
-          where: { automationId: automation.id },
-          data: { lastSeenData: lastSeen },
-        });
+        await this.saveCursors(automation.id, changes.catalogId, cursors);
       }
     }
   }
@@ -657,20 +1885,26 @@ export class TriggerManager {
   // ===========================================================================
 
   private startCron(automation: AutomationRule, trigger: ScheduleTrigger): void {
+    // A replaced job would keep firing with nothing left to stop it
+    this.cronJobs.get(automation.id)?.stop();
+    this.cronJobs.delete(automation.id);
+
     try {
       const job = new CronJob(
         trigger.cron,
         async () => {
           if (!this.running) return;
 
+          const firedAt = new Date();
           const event: TriggerEvent = {
             type: 'schedule',
             automationId: automation.id,
-            timestamp: new Date().toISOString(),
-            scheduleTime: new Date().toISOString(),
+            timestamp: firedAt.toISOString(),
+            scheduleTime: firedAt.toISOString(),
           };
 
           try {
+            await this.recordCronFire(automation.id, firedAt);
             await this.handler(event);
           } catch (err: any) {
             logger.error(`Scheduled automation ${automation.id} failed: ${err.message}`);
@@ -683,22 +1917,329 @@ export class TriggerManager {
 
       this.cronJobs.set(automation.id, job);
       logger.info(`Cron job started for automation ${automation.id}: ${trigger.cron}`);
+
+      this.catchUpMisfires(automation, trigger).catch((err) =>
+        logger.error(`Misfire catch-up failed for ${automation.id}: ${err.message}`)
+      );
     } catch (err: any) {
       logger.error(`Failed to create cron job for ${automation.id}: ${err.message}`);
     }
   }
 
+  /**
+   * Compare the last recorded fire with the schedule and apply the trigger's
+   * misfire policy to whatever was missed while the service was down.
+   */
+  private async catchUpMisfires(automation: AutomationRule, trigger: ScheduleTrigger): Promise<void> {
+    const state = await this.getOrCreateState(automation.id);
+    const now = new Date();
+
+    // Nothing to compare against yet: start counting from now
+    if (!state.lastFiredAt) {
+      await this.recordCronFire(automation.id, now);
+      return;
+    }
+
+    const policy = trigger.misfirePolicy || 'skip';
+    const cap = policy === 'run_all' ? trigger.misfireCap || this.config.defaultMisfireCap : 1;
+    const timezone = trigger.timezone || 'UTC';
+    const cronTime = new CronTime(trigger.cron, timezone);
+
+    // Collect missed fire times, keeping at most `cap` of the most recent ones
+    const missed: Date[] = [];
+    let missedCount = 0;
+    let next = cronTime.getNextDateFrom(new Date(state.lastFiredAt), timezone).toJSDate();
+    while (next <= now) {
+      missedCount++;
+      missed.push(next);
+      if (missed.length > cap) missed.shift();
+      next = cronTime.getNextDateFrom(next, timezone).toJSDate();
+    }
+
+    if (!missedCount) return;
+
+    logger.warn(
+      `Automation ${automation.id} missed ${missedCount} scheduled run(s) since ${new Date(state.lastFiredAt).toISOString()} ` +
+      `(misfire policy: ${policy})`
+    );
+
+    if (policy !== 'skip') {
+      for (const scheduleTime of missed) {
+        if (!this.running) return;
+
+        const event: TriggerEvent = {
+          type: 'schedule',
+          automationId: automation.id,
+          timestamp: new Date().toISOString(),
+          scheduleTime: scheduleTime.toISOString(),
+          catchUp: true,
+        };
+
+        await this.recordCronFire(automation.id, scheduleTime);
+        await this.handler(event);
+      }
+    }
+
+    await this.recordCronFire(automation.id, now);
+  }
+
+  /**
+   * Move lastFiredAt forward to firedAt. It never moves back, so a catch-up
+   * finishing after a live fire can't reopen runs that already happened.
+   */
+  private async recordCronFire(automationId: string, firedAt: Date): Promise<void> {
+    await this.getOrCreateState(automationId);
+    await this.prisma.triggerState.updateMany({
+      where: { automationId, OR: [{ lastFiredAt: null }, { lastFiredAt: { lt: firedAt } }] },
+      data: { lastFiredAt: firedAt },
+    });
+  }
+
+  /**
+   * Count a deliberate stop of a running cron job (disable, delete, edit) as
+   * its last fire, so runs skipped while stopped or under the old cron
+   * expression are not caught up when it starts again. Shutdowns and crashes
+   * don't come through here, so their missed runs still are.
+   */
+  private async recordCronStop(automationId: string): Promise<void> {
+    if (!this.cronJobs.has(automationId)) return;
+
+    try {
+      await this.recordCronFire(automationId, new Date());
+    } catch (err: any) {
+      logger.error(`Failed to record stop of scheduled automation ${automationId}: ${err.message}`);
+    }
+  }
+
   // ===========================================================================
   // Helpers
   // ===========================================================================
 
+  private async getOrCreateState(automationId: string) {
+    const state = await this.prisma.triggerState.findUnique({
+      where: { automationId },
+    });
+    if (state) return state;
+
+    return this.prisma.triggerState.create({
+      data: {
+        automationId,
+        lastCheckedAt: new Date(),
+        lastSeenData: {},
+      },
+    });
+  }
+
+  /**
+   * Poll state for one automation in one catalog. Watchers for different
+   * catalogs run independently, so each keeps its own row.
+   */
+  private async getOrCreatePollState(automationId: string, catalogId: string) {
+    return this.prisma.catalogPollState.upsert({
+      where: { automationId_catalogId: { automationId, catalogId } },
+      create: { automationId, catalogId, cursors: {} },
+      update: {},
+    });
+  }
+
+  private async saveCursors(automationId: string, catalogId: string, cursors: Record<string, PollCursor>): Promise<void> {
+    await this.prisma.catalogPollState.update({
+      where: { automationId_catalogId: { automationId, catalogId } },
+      data: { cursors },
+    });
+  }
+
+  /**
+   * Fields whose changes count as a status transition:
+   * 1. Top-level status field (tracked as "@status" in item history)
+   * 2. STATUS-type attributes (tracked by attribute name in history)
+   */
+  private async getStatusFields(catalogId: string): Promise<string[]> {
+    const watchFields: string[] = ['@status'];
+
+    const attributes = await this.onstaqClient.listAttributes(catalogId);
+    const statusAttr = attributes.find((a) => a.type === 'STATUS');
+    if (statusAttr) {
+      watchFields.push(statusAttr.name);
+    }
+
+    return watchFields;
+  }
+
+  private extractPreviousValues(changes: Record<string, any> | undefined): Record<string, any> {
+    const previousValues: Record<string, any> = {};
+    for (const [field, change] of Object.entries(changes || {})) {
+      if (change && typeof change === 'object' && 'from' in change) {
+        previousValues[field] = change.from;
+      }
+    }
+    return previousValues;
+  }
+
+  /**
+   * Match a changed value against a from/to filter: case-insensitive, with
+   * '*' wildcards, and a list matches if any of its entries does.
+   */
+  private matchesValue(value: unknown, filter: string | string[] | undefined): boolean {
+    if (filter === undefined) return true;
+
+    const actual = value === null || value === undefined ? '' : String(value);
+    const patterns = Array.isArray(filter) ? filter : [filter];
+
+    return patterns.some((pattern) => {
+      if (!pattern.includes('*')) return actual.toLowerCase() === pattern.toLowerCase();
+      const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+      return new RegExp(`^${source}$`, 'i').test(actual);
+    });
+  }
+
   private async resolveCatalogId(catalogName: string | undefined, workspaceId: string): Promise<string | undefined> {
     if (!catalogName) return undefined;
-    const catalogs = await this.onstaqClient.listCatalogs(workspaceId);
+    const catalogs = await this.listWorkspaceCatalogs(workspaceId);
     return catalogs.find((c) => c.name.toLowerCase() === catalogName.toLowerCase())?.id;
   }
 
+  /**
+   * Workspace catalog list, cached for catalogCacheTtlMs since every
+   * workspace-scoped trigger and pushed event consults it.
+   */
+  private async listWorkspaceCatalogs(workspaceId: string): Promise<Catalog[]> {
+    const cached = this.catalogCache.get(workspaceId);
+    if (cached && Date.now() - cached.fetchedAt < this.config.catalogCacheTtlMs) {
+      return cached.catalogs;
+    }
+
+    const catalogs = await this.onstaqClient.listCatalogs(workspaceId);
+    this.catalogCache.set(workspaceId, { catalogs, fetchedAt: Date.now() });
+    return catalogs;
+  }
+
+  /**
+   * Build the trigger.reference payload from a REFERENCE_ADDED/REMOVED history
+   * entry, fetching the item on the other side of the link when it isn't embedded.
+   */
+  private async buildTriggerReference(entry: HistoryEntry): Promise<TriggerReference> {
+    const changes = (entry.changes || {}) as Record<string, any>;
+    const reference: TriggerReference = {
+      id: changes.referenceId || changes.id,
+      kind: changes.referenceKind,
+      label: changes.label,
+      targetItemId: changes.toItemId || changes.toItem?.id,
+    };
+
+    if (changes.toItem?.attributeValues) {
+      reference.targetItem = changes.toItem;
+    } else if (reference.targetItemId) {
+      try {
+        reference.targetItem = await this.onstaqClient.getItem(reference.targetItemId);
+      } catch (err: any) {
+        logger.warn(`Could not fetch referenced item ${reference.targetItemId}: ${err.message}`);
+      }
+    }
+
+    return reference;
+  }
+
+  /**
+   * Top-level fields whose values differ between two definitions.
+   */
+  private diffDefinition(before: Record<string, any>, after: Record<string, any>, ignore: string[] = []): string[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...fields].filter(
+      (field) => !ignore.includes(field) && JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    );
+  }
+
+  /**
+   * Identity of an OQL row between polls. Rows without the key column are
+   * identified by their content.
+   */
+  private oqlRowKey(trigger: OqlMatchTrigger, row: Record<string, any>): string {
+    const key = row[trigger.keyColumn || 'id'];
+    return key !== undefined && key !== null ? String(key) : this.hashEvent(JSON.stringify(row));
+  }
+
+  private async fetchOqlRowItem(row: Record<string, any>): Promise<Item | undefined> {
+    if (!row.id) return undefined;
+    try {
+      return await this.onstaqClient.getItem(String(row.id));
+    } catch (err: any) {
+      logger.warn(`Could not fetch item ${row.id} for OQL row: ${err.message}`);
+      return undefined;
+    }
+  }
+
+  private toTriggerReference(ref: ItemReference): TriggerReference {
+    return {
+      id: ref.id,
+      kind: ref.referenceKind,
+      label: ref.label,
+      targetItemId: ref.toItemId,
+      targetItem: ref.toItem,
+    };
+  }
+
+  /**
+   * Timestamp field a polled trigger advances its cursor on. item.deleted
+   * diffs full listings instead and has none.
+   */
+  private cursorField(trigger: TriggerConfig): CursorField | null {
+    if (trigger.type === 'item.deleted') return null;
+    return trigger.type === 'item.created' ? 'createdAt' : 'updatedAt';
+  }
+
+  /**
+   * Cursor for a field. A catalog polled for the first time starts from the
+   * automation's lastCheckedAt.
+   */
+  private cursorFor(cursors: Record<string, PollCursor>, key: string, lastChecked: Date): PollCursor {
+    return cursors[key] || { at: lastChecked.toISOString(), id: '' };
+  }
+
+  /**
+   * Dedup identity of a change: trigger type, item and the change within it
+   * (updatedAt for edits, the comment or reference ID otherwise). Polling and
+   * push deliveries build it the same way so a change seen through both fires once.
+   */
+  private changeKey(triggerType: TriggerType, item: Pick<Item, 'id'>, change?: string): string {
+    return change === undefined ? `${triggerType}:${item.id}` : `${triggerType}:${item.id}:${change}`;
+  }
+
+  /**
+   * Atomically record an event as seen. Returns false when another poll (or
+   * push delivery) already claimed it, so every event fires at most once.
+   */
+  private async claimEvent(automationId: string, input: string): Promise<boolean> {
+    const result = await this.prisma.triggerDedup.createMany({
+      data: [{
+        automationId,
+        eventKey: this.hashEvent(input),
+        expiresAt: new Date(Date.now() + this.config.dedupTtlMs),
+      }],
+      skipDuplicates: true,
+    });
+    return result.count === 1;
+  }
+
+  private async purgeExpiredDedup(): Promise<void> {
+    const result = await this.prisma.triggerDedup.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    if (result.count > 0) {
+      logger.info(`Purged ${result.count} expired trigger dedup entries`);
+    }
+  }
+
+  private async purgeWebhookDeliveries(): Promise<void> {
+    const result = await this.prisma.webhookDelivery.deleteMany({
+      where: { receivedAt: { lt: new Date(Date.now() - this.config.webhookDeliveryTtlMs) } },
+    });
+    if (result.count > 0) {
+      logger.info(`Purged ${result.count} webhook delivery log entries`);
+    }
+  }
+
   private hashEvent(input: string): string {
-    return crypto.createHash('md5').update(input).digest('hex').slice(0, 12);
+    return crypto.createHash('sha256').update(input).digest('hex');
   }
 }
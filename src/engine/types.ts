@@ -3,7 +3,7 @@
 // Component-chain architecture: Trigger → Components[] (actions, conditions, branches, if/else)
 // =============================================================================
 
-import { Item, ReferenceKind } from '../onstaq/types';
+import { Attribute, Catalog, Comment, Item, ReferenceKind, WorkspaceMember, WorkspaceRole } from '../onstaq/types';
 export type { Item } from '../onstaq/types';
 
 // --- Trigger Types ---
@@ -21,41 +21,65 @@ export type TriggerType =
   | 'schedule'
   | 'manual'
   | 'oql.match'
+  | 'date.reached'
+  | 'member.added'
+  | 'member.removed'
+  | 'member.role_changed'
+  | 'schema.catalog_created'
+  | 'schema.attribute_added'
+  | 'schema.attribute_changed'
   | 'webhook.received';
 
 export interface BaseTriggerConfig {
   type: TriggerType;
 }
 
-export interface ItemCreatedTrigger extends BaseTriggerConfig {
+export interface PollingTriggerConfig extends BaseTriggerConfig {
+  pollIntervalMs?: number;  // Clamped to the engine's minPollIntervalMs
+}
+
+/**
+ * Item triggers without catalogId/catalogName watch the whole workspace,
+ * optionally narrowed by catalog IDs or names.
+ */
+export interface ItemTriggerConfig extends PollingTriggerConfig {
+  includeCatalogs?: string[];
+  excludeCatalogs?: string[];
+  debounceMs?: number;     // Collapse repeated events for the same item, keeping the latest
+  batchWindowMs?: number;  // Collect events and fire once per window with trigger.items
+  ignoreOwnChanges?: boolean;  // Skip changes made by the engine's ONSTAQ user (default: true)
+  actorFilter?: { include?: string[]; exclude?: string[] };  // ONSTAQ user IDs
+}
+
+export interface ItemCreatedTrigger extends ItemTriggerConfig {
   type: 'item.created';
   catalogId?: string;
   catalogName?: string;
 }
 
-export interface ItemUpdatedTrigger extends BaseTriggerConfig {
+export interface ItemUpdatedTrigger extends ItemTriggerConfig {
   type: 'item.updated';
   catalogId?: string;
   catalogName?: string;
   attributes?: string[];
 }
 
-export interface ItemDeletedTrigger extends BaseTriggerConfig {
+export interface ItemDeletedTrigger extends ItemTriggerConfig {
   type: 'item.deleted';
   catalogId?: string;
   catalogName?: string;
 }
 
-export interface AttributeChangedTrigger extends BaseTriggerConfig {
+export interface AttributeChangedTrigger extends ItemTriggerConfig {
   type: 'attribute.changed';
   catalogId?: string;
   catalogName?: string;
   attributeName: string;
-  from?: string;
-  to?: string;
+  from?: string | string[];  // Case-insensitive; '*' wildcards, lists match any
+  to?: string | string[];
 }
 
-export interface StatusChangedTrigger extends BaseTriggerConfig {
+export interface StatusChangedTrigger extends ItemTriggerConfig {
   type: 'status.changed';
   catalogId?: string;
   catalogName?: string;
@@ -63,28 +87,28 @@ export interface StatusChangedTrigger extends BaseTriggerConfig {
   to?: string;
 }
 
-export interface ReferenceAddedTrigger extends BaseTriggerConfig {
+export interface ReferenceAddedTrigger extends ItemTriggerConfig {
   type: 'reference.added';
   catalogId?: string;
   catalogName?: string;
   referenceKind?: ReferenceKind;
 }
 
-export interface ItemLinkedTrigger extends BaseTriggerConfig {
+export interface ItemLinkedTrigger extends ItemTriggerConfig {
   type: 'item.linked';
   catalogId?: string;
   catalogName?: string;
   referenceKind?: ReferenceKind;
 }
 
-export interface ItemUnlinkedTrigger extends BaseTriggerConfig {
+export interface ItemUnlinkedTrigger extends ItemTriggerConfig {
   type: 'item.unlinked';
   catalogId?: string;
   catalogName?: string;
   referenceKind?: ReferenceKind;
 }
 
-export interface ItemCommentedTrigger extends BaseTriggerConfig {
+export interface ItemCommentedTrigger extends ItemTriggerConfig {
   type: 'item.commented';
   catalogId?: string;
   catalogName?: string;
@@ -94,6 +118,8 @@ export interface ScheduleTrigger extends BaseTriggerConfig {
   type: 'schedule';
   cron: string;
   timezone?: string;
+  misfirePolicy?: 'skip' | 'run_once' | 'run_all';  // Fires missed while down (default: skip)
+  misfireCap?: number;                              // run_all: most catch-up runs (default: 10)
 }
 
 export interface ManualTrigger extends BaseTriggerConfig {
@@ -108,18 +134,94 @@ export interface ManualTrigger extends BaseTriggerConfig {
   }[];
 }
 
-export interface OqlMatchTrigger extends BaseTriggerConfig {
+export interface OqlMatchTrigger extends PollingTriggerConfig {
   type: 'oql.match';
   query: string;
-  interval?: number;
-  triggerOn: 'new_results' | 'count_change' | 'any_results';
+  interval?: number;  // Legacy alias of pollIntervalMs
+  triggerOn: 'new_results' | 'count_change' | 'any_results' | 'rows_added' | 'rows_removed';
+  keyColumn?: string;  // Column identifying a row between polls (default: id)
+  perRow?: boolean;    // rows_added: one execution per added row, with trigger.item
+}
+
+export interface DateReachedTrigger extends PollingTriggerConfig {
+  type: 'date.reached';
+  catalogId?: string;
+  catalogName?: string;
+  attributeName: string;  // DATE or DATETIME attribute
+  offset?: string;        // Signed duration relative to the date, e.g. '-2d', '+4h' (default: 0)
+}
+
+export interface MemberAddedTrigger extends PollingTriggerConfig {
+  type: 'member.added';
+  role?: WorkspaceRole;  // Only members joining with this role
+}
+
+export interface MemberRemovedTrigger extends PollingTriggerConfig {
+  type: 'member.removed';
+  role?: WorkspaceRole;  // Only members who held this role
+}
+
+export interface MemberRoleChangedTrigger extends PollingTriggerConfig {
+  type: 'member.role_changed';
+  from?: WorkspaceRole;
+  to?: WorkspaceRole;
+}
+
+export interface SchemaCatalogCreatedTrigger extends PollingTriggerConfig {
+  type: 'schema.catalog_created';
+}
+
+export interface SchemaAttributeAddedTrigger extends PollingTriggerConfig {
+  type: 'schema.attribute_added';
+  catalogId?: string;
+  catalogName?: string;
+}
+
+export interface SchemaAttributeChangedTrigger extends PollingTriggerConfig {
+  type: 'schema.attribute_changed';
+  catalogId?: string;
+  catalogName?: string;
+  attributeName?: string;
+}
+
+/**
+ * How an inbound webhook is signed. Signatures are checked against the raw
+ * request body; `github` and `stripe` preset the header and format.
+ */
+export interface WebhookSignatureConfig {
+  scheme?: 'hmac' | 'github' | 'stripe';  // Default: hmac
+  header?: string;               // Default: x-webhook-signature (github: x-hub-signature-256, stripe: stripe-signature)
+  algorithm?: 'sha1' | 'sha256' | 'sha512';  // Default: sha256
+  encoding?: 'hex' | 'base64';   // Default: hex
+  prefix?: string;               // Stripped from the header value, e.g. 'v1='
+  timestampHeader?: string;      // hmac: unix timestamp (seconds) header; the signature then covers "<timestamp>.<body>"
+  toleranceSeconds?: number;     // Max clock skew for timestamped signatures (default: 300)
+  nonceHeader?: string;          // Delivery ID header that may only be seen once (github: x-github-delivery)
+  nonceTtlSeconds?: number;      // How long nonces are remembered
 }
 
 export interface WebhookReceivedTrigger extends BaseTriggerConfig {
   type: 'webhook.received';
   path?: string;
   secret?: string;
-  filter?: Record<string, any>;
+  signature?: WebhookSignatureConfig;
+  filter?: Record<string, any>;   // Legacy: strict equality on top-level payload fields
+  conditions?: ConditionConfig;   // Evaluated before the item is loaded, so use json_path conditions
+  itemKeyPath?: string;  // JSONPath to an item key in the payload (e.g. "issue.key") to load as trigger.item
+  itemIdPath?: string;   // Same, for an ONSTAQ item ID; wins over itemKeyPath
+  respond?: 'sync' | 'async';          // Default: async (202 with execution IDs)
+  responseTimeoutMs?: number;          // sync only. Default: 10000
+  response?: WebhookResponseTemplate;  // sync only
+}
+
+/**
+ * HTTP response for a sync webhook, rendered with the finished execution's
+ * context ({{variables.*}}, {{trigger.*}}, {{action[n].result.*}}).
+ */
+export interface WebhookResponseTemplate {
+  status?: number | string;  // Default: 200, or 500 when the execution failed
+  headers?: Record<string, string>;
+  body?: any;                // Objects are sent as JSON, strings as-is
 }
 
 export type TriggerConfig =
@@ -135,20 +237,89 @@ export type TriggerConfig =
   | ScheduleTrigger
   | ManualTrigger
   | OqlMatchTrigger
+  | DateReachedTrigger
+  | MemberAddedTrigger
+  | MemberRemovedTrigger
+  | MemberRoleChangedTrigger
+  | SchemaCatalogCreatedTrigger
+  | SchemaAttributeAddedTrigger
+  | SchemaAttributeChangedTrigger
   | WebhookReceivedTrigger;
 
 // --- Trigger Event (runtime data when a trigger fires) ---
 
+export interface TriggerReference {
+  id?: string;
+  kind?: ReferenceKind;
+  label?: string;
+  targetItemId?: string;
+  targetItem?: Item;
+}
+
+/**
+ * ONSTAQ user whose change fired the trigger.
+ */
+export interface TriggerActor {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
+/**
+ * Status change carried by status.changed events. `field` is `@status` for the
+ * built-in workflow status, or the name of the catalog's STATUS attribute.
+ */
+export interface StatusTransition {
+  from: string | null;
+  to: string | null;
+  field: string;
+}
+
+/**
+ * Definition change carried by schema.* events. `before` is null for newly
+ * created catalogs and attributes.
+ */
+export interface SchemaChange {
+  catalog: Catalog;
+  attribute?: Attribute;
+  before: Catalog | Attribute | null;
+  after: Catalog | Attribute;
+  changedFields?: string[];  // schema.attribute_changed only
+}
+
+/**
+ * Inbound HTTP request behind a webhook.received event. The parsed body is
+ * carried separately as webhookPayload.
+ */
+export interface WebhookRequest {
+  path: string;
+  method: string;
+  headers: Record<string, string>;  // Lower-cased names, credentials stripped
+  query: Record<string, any>;
+  contentType: string;
+  rawBody?: string;                 // Text body as received, before normalization; omitted for multipart, binary or >64 KB
+}
+
 export interface TriggerEvent {
   type: TriggerType;
   automationId: string;
   timestamp: string;
   item?: Item;
+  items?: Item[];  // Batched executions: every collected item
   previousValues?: Record<string, any>;
+  reference?: TriggerReference;
+  comment?: Comment;
+  member?: WorkspaceMember;  // member.* triggers; role changes keep the old role in previousValues.workspaceRole
+  schemaChange?: SchemaChange;  // schema.* triggers
+  actor?: TriggerActor;
+  transition?: StatusTransition;
   oqlResults?: Record<string, any>[];
   webhookPayload?: Record<string, any>;
+  webhook?: WebhookRequest;
   manualParameters?: Record<string, any>;
   scheduleTime?: string;
+  catchUp?: boolean;  // Schedule run replayed after downtime; scheduleTime is the missed fire
+  backfill?: boolean; // Replayed from item history; timestamp is when the change happened
 }
 
 // --- Condition Types ---
@@ -192,11 +363,25 @@ export interface TemplateCondition {
   expression: string;
 }
 
+/**
+ * Compares a value addressed by JSONPath in the webhook that fired the
+ * automation. Wildcard paths pass when any selected value matches (negated
+ * operators: when every value does).
+ */
+export interface JsonPathCondition {
+  type: 'json_path';
+  source?: 'payload' | 'headers' | 'query';  // Default: payload
+  path: string;                               // e.g. "$.pull_request.base.ref"
+  operator: ConditionOperator;
+  value?: any;
+}
+
 export type SingleCondition =
   | AttributeCondition
   | OqlCondition
   | ReferenceCondition
-  | TemplateCondition;
+  | TemplateCondition
+  | JsonPathCondition;
 
 export interface ConditionGroup {
   operator: 'AND' | 'OR' | 'NOT';
@@ -447,7 +632,7 @@ export type ActionConfig =
 
 export type ComponentType = 'action' | 'condition' | 'branch' | 'if_else';
 
-export type BranchType = 'related_items' | 'created_items' | 'lookup_items';
+export type BranchType = 'related_items' | 'created_items' | 'lookup_items' | 'trigger_items';
 
 export interface BranchConfig {
   type: BranchType;
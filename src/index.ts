@@ -18,6 +18,11 @@ async function main() {
   const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || '60000', 10);
   const MIN_POLL_INTERVAL_MS = parseInt(process.env.MIN_POLL_INTERVAL_MS || '10000', 10);
   const MAX_CONCURRENT_EXECUTIONS = parseInt(process.env.MAX_CONCURRENT_EXECUTIONS || '10', 10);
+  const ONSTAQ_WEBHOOK_SECRET = process.env.ONSTAQ_WEBHOOK_SECRET;
+  const ONSTAQ_PUSH_WORKSPACES = (process.env.ONSTAQ_PUSH_WORKSPACES || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
 
   // --- Initialize services ---
   const prisma = new PrismaClient();
@@ -37,6 +42,7 @@ async function main() {
     maxConcurrentExecutions: MAX_CONCURRENT_EXECUTIONS,
     pollIntervalMs: POLL_INTERVAL_MS,
     minPollIntervalMs: MIN_POLL_INTERVAL_MS,
+    pushWorkspaceIds: ONSTAQ_PUSH_WORKSPACES,
   });
 
   // --- Start automation engine ---
@@ -49,7 +55,9 @@ async function main() {
   }
 
   // --- Start REST API ---
-  const apiApp = createApiServer(prisma, onstaqClient, executor);
+  const apiApp = createApiServer(prisma, onstaqClient, executor, {
+    onstaqWebhookSecret: ONSTAQ_WEBHOOK_SECRET,
+  });
   apiApp.listen(PORT, () => {
     logger.info(`REST API listening on port ${PORT}`);
     logger.info(`  Health: http://localhost:${PORT}/api/health`);
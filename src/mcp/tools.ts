@@ -70,7 +70,7 @@ export function createMcpTools(
       name: 'create_automation',
       description: `Create a new automation rule with a trigger, optional conditions, and one or more actions.
 
-TRIGGER TYPES: item.created, item.updated, item.deleted, attribute.changed, status.changed, reference.added, schedule (cron), manual, oql.match, webhook.received
+TRIGGER TYPES: item.created, item.updated, item.deleted, attribute.changed, status.changed, reference.added, schedule (cron), manual, oql.match, date.reached, member.added, member.removed, member.role_changed, schema.catalog_created, schema.attribute_added, schema.attribute_changed, webhook.received
 
 CONDITION TYPES: attribute (compare values), oql (run query), reference (check refs exist), template (evaluate expression)
 Conditions support AND/OR/NOT composition.
@@ -78,7 +78,7 @@ Conditions support AND/OR/NOT composition.
 ACTION TYPES: item.create, item.update, item.delete, item.clone, item.transition, item.lookup, attribute.set, reference.add, reference.remove, comment.add, item.import, catalog.create, attribute.create, workspace.member.add, oql.execute, webhook.send, automation.trigger, variable.set, log, refetch_data
 
 COMPONENT CHAIN: Rules use a flat ordered list of components (actions, conditions, branches, if/else blocks) instead of separate conditions and actions.
-BRANCH TYPES: related_items, created_items, lookup_items — iterate sub-components for each matched item.
+BRANCH TYPES: related_items, created_items, lookup_items, trigger_items (items collected by a batched trigger) — iterate sub-components for each matched item.
 IF/ELSE: Evaluate conditions, then execute then[] or else[] component paths.
 
 Actions support {{template}} variables: {{trigger.item.id}}, {{trigger.item.key}}, {{trigger.item.attributes.AttributeName}}, {{trigger.previous.AttributeName}}, {{currentItem.id}}, {{variables.name}}, {{env.NOW}}, {{oql:QUERY}}`,
@@ -232,6 +232,30 @@ Actions support {{template}} variables: {{trigger.item.id}}, {{trigger.item.key}
       },
     },
 
+    {
+      name: 'backfill_automation',
+      description: 'Run an automation against past item changes (history) in a time range. Use dryRun to only list the events that would fire.',
+      inputSchema: z.object({
+        automationId: z.string().uuid(),
+        from: z.string().datetime({ offset: true }).describe('Start of the range (ISO 8601)'),
+        to: z.string().datetime({ offset: true }).optional().describe('End of the range (ISO 8601, default: now)'),
+        dryRun: z.boolean().optional().default(true).describe('Only list matching events, do not execute'),
+        limit: z.number().int().positive().max(5000).optional().default(500),
+      }),
+      handler: async (input) => {
+        const options = {
+          from: new Date(input.from),
+          to: input.to ? new Date(input.to) : new Date(),
+          limit: input.limit || 500,
+        };
+        if (input.dryRun ?? true) {
+          return executor.previewBackfill(input.automationId, options);
+        }
+        await executor.startBackfill(input.automationId, options);
+        return { message: 'Backfill started; its executions appear in list_executions as they are queued', automationId: input.automationId };
+      },
+    },
+
     // ======================================================================
     // Execution History
     // ======================================================================
@@ -285,17 +309,34 @@ Actions support {{template}} variables: {{trigger.item.id}}, {{trigger.item.key}
       description: 'Show all available trigger types with their configuration options. Use this to understand what triggers are available when creating automations.',
       inputSchema: z.object({}),
       handler: async () => ({
+        pollingOptions: {
+          pollIntervalMs: 'optional on item and oql.match triggers; clamped to the engine minimum',
+          workspaceScope: 'item triggers without catalogId/catalogName watch every catalog in the workspace',
+          includeCatalogs: 'optional catalog IDs or names to limit a workspace-scoped trigger to',
+          excludeCatalogs: 'optional catalog IDs or names to leave out of a workspace-scoped trigger',
+          debounceMs: 'optional; collapse repeated events for the same item, keeping the latest',
+          batchWindowMs: 'optional; collect events and run once per window, exposing {{trigger.items}}',
+          ignoreOwnChanges: 'optional boolean (default true); skip changes made by the automation engine itself',
+          actorFilter: 'optional { include?: userId[], exclude?: userId[] } on the ONSTAQ user who made the change',
+        },
         triggers: [
           { type: 'item.created', description: 'Fires when an item is created', config: { catalogId: 'optional UUID', catalogName: 'optional string' } },
           { type: 'item.updated', description: 'Fires when an item is updated', config: { catalogId: 'optional', catalogName: 'optional', attributes: 'optional string[] to watch specific attributes' } },
           { type: 'item.deleted', description: 'Fires when an item is deleted', config: { catalogId: 'optional', catalogName: 'optional' } },
-          { type: 'attribute.changed', description: 'Fires when a specific attribute changes', config: { attributeName: 'required', catalogId: 'optional', from: 'optional old value', to: 'optional new value' } },
+          { type: 'attribute.changed', description: 'Fires when a specific attribute changes', config: { attributeName: 'required', catalogId: 'optional', from: 'optional old value(s), case-insensitive, * wildcards or a list', to: 'optional new value(s), e.g. ["High", "Critical"]' } },
           { type: 'status.changed', description: 'Fires when a STATUS attribute transitions', config: { catalogId: 'optional', from: 'optional', to: 'optional' } },
           { type: 'reference.added', description: 'Fires when a reference is created', config: { catalogId: 'optional', referenceKind: 'optional' } },
-          { type: 'schedule', description: 'Fires on a cron schedule', config: { cron: 'required cron expression', timezone: 'optional IANA timezone' } },
+          { type: 'schedule', description: 'Fires on a cron schedule', config: { cron: 'required cron expression', timezone: 'optional IANA timezone', misfirePolicy: 'optional skip|run_once|run_all for fires missed while the service was down (default: skip)', misfireCap: 'optional max catch-up runs for run_all (default: 10)' } },
           { type: 'manual', description: 'Fires when triggered via API/MCP', config: { parameters: 'optional parameter definitions' } },
-          { type: 'oql.match', description: 'Fires when OQL query returns results', config: { query: 'required OQL', triggerOn: 'new_results|count_change|any_results' } },
-          { type: 'webhook.received', description: 'Fires on inbound webhook', config: { path: 'optional URL path', secret: 'optional HMAC secret' } },
+          { type: 'oql.match', description: 'Fires when OQL query returns results', config: { query: 'required OQL', triggerOn: 'new_results|count_change|any_results|rows_added|rows_removed (rows_* events carry only the changed rows)', keyColumn: 'optional row identity column (default: id)', perRow: 'optional boolean; rows_added fires one execution per added row with trigger.item', pollIntervalMs: 'optional poll interval in ms (alias: interval)' } },
+          { type: 'date.reached', description: 'Fires once per item when a date attribute plus an offset is reached; re-arms when the date changes', config: { attributeName: 'required DATE/DATETIME attribute', catalogId: 'catalogId or catalogName required', offset: "optional signed offset, e.g. '-2d' (2 days before), '+4h'", pollIntervalMs: 'optional' } },
+          { type: 'member.added', description: 'Fires when a user joins the workspace', config: { role: 'optional WORKSPACE_ADMIN|ITEM_EDITOR|ITEM_VIEWER' } },
+          { type: 'member.removed', description: 'Fires when a user leaves the workspace', config: { role: 'optional role the member held' } },
+          { type: 'member.role_changed', description: "Fires when a member's workspace role changes", config: { from: 'optional role', to: 'optional role' } },
+          { type: 'schema.catalog_created', description: 'Fires when a catalog is added to the workspace', config: {} },
+          { type: 'schema.attribute_added', description: 'Fires when an attribute is added to a catalog', config: { catalogId: 'optional', catalogName: 'optional' } },
+          { type: 'schema.attribute_changed', description: 'Fires when an attribute definition changes (before/after in trigger.schemaChange)', config: { catalogId: 'optional', catalogName: 'optional', attributeName: 'optional' } },
+          { type: 'webhook.received', description: 'Fires on inbound webhook. JSON, form, multipart, XML (root element as top-level key) and text ({ text }) bodies become trigger.webhookPayload', config: { path: 'optional URL path', secret: 'optional HMAC secret', signature: 'optional { scheme: hmac|github|stripe, header, algorithm, encoding, prefix, timestampHeader, toleranceSeconds, nonceHeader } — verified against the raw body', conditions: 'optional condition tree (json_path conditions) a delivery must pass; skipped deliveries are logged', itemKeyPath: 'optional payload path to an item key (e.g. issue.key) loaded as trigger.item', itemIdPath: 'optional payload path to an item ID, same as itemKeyPath', respond: "optional sync|async (default async: 202 with execution IDs to poll)", responseTimeoutMs: 'optional sync wait in ms (default 10000, max 60000; 504 on timeout)', response: 'optional sync response { status, headers, body } rendered with {{variables.*}} from the finished execution' } },
         ],
       }),
     },
@@ -324,6 +365,13 @@ Actions support {{template}} variables: {{trigger.item.id}}, {{trigger.item.key}
         templateVariables: [
           '{{trigger.item.id}}', '{{trigger.item.key}}', '{{trigger.item.attributes.AttributeName}}',
           '{{trigger.previous.AttributeName}}', '{{trigger.user.name}}', '{{trigger.timestamp}}',
+          '{{trigger.reference.targetItem.key}}', '{{trigger.reference.kind}}', '{{trigger.reference.label}}',
+          '{{trigger.status.from}}', '{{trigger.status.to}}',
+          '{{trigger.comment.body}}', '{{trigger.comment.user.name}}', '{{trigger.actor.name}}', '{{trigger.actor.email}}',
+          '{{trigger.member.name}}', '{{trigger.member.email}}', '{{trigger.member.workspaceRole}}', '{{trigger.previous.workspaceRole}}',
+          '{{trigger.schemaChange.catalog.name}}', '{{trigger.schemaChange.after.name}}', '{{trigger.schemaChange.changedFields}}',
+          '{{trigger.webhookPayload.field}}', "{{trigger.webhook.headers['x-header-name']}}", '{{trigger.webhook.query.param}}', '{{trigger.webhook.path}}', '{{trigger.webhook.rawBody}}', '{{trigger.webhook.contentType}}',
+          '{{#each trigger.items}}{{currentItem.key}}{{/each}}',
           '{{env.NOW}}', '{{env.TODAY}}', '{{context.variables.name}}',
           '{{action[0].result.property}}', '{{oql:FROM Catalog SELECT COUNT(*)}}',
         ],
@@ -336,10 +384,11 @@ Actions support {{template}} variables: {{trigger.item.id}}, {{trigger.item.key}
       inputSchema: z.object({}),
       handler: async () => ({
         types: [
-          { type: 'attribute', description: 'Compare item attribute value', operators: ['equals', 'not_equals', 'contains', 'starts_with', 'ends_with', 'in', 'is_null', 'changed_to', 'changed_from', 'matches_regex'] },
+          { type: 'attribute', description: 'Compare item attribute value ("@status" for the built-in status)', operators: ['equals', 'not_equals', 'contains', 'starts_with', 'ends_with', 'in', 'is_null', 'changed_to', 'changed_from', 'matches_regex'] },
           { type: 'oql', description: 'Passes if OQL query returns results', config: { query: 'OQL query string', expectCount: 'optional exact count' } },
           { type: 'reference', description: 'Check item references', config: { direction: 'outbound|inbound', exists: 'boolean' } },
           { type: 'template', description: 'Evaluate template expression as truthy', config: { expression: 'template string' } },
+          { type: 'json_path', description: 'Compare a value in the webhook that fired the automation (any operator; wildcard paths pass if any value matches)', config: { source: 'payload|headers|query (default: payload)', path: 'JSONPath, e.g. $.pull_request.base.ref or $.commits[*].message', operator: 'condition operator', value: 'comparison value' } },
         ],
         composition: { AND: 'All must pass', OR: 'Any must pass', NOT: 'Negates one condition' },
       }),
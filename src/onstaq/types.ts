@@ -137,6 +137,7 @@ export interface Item {
     workspaceId: string;
     workspace?: Workspace;
   };
+  status?: string | null;  // Built-in workflow status (the `@status` field)
   attributeValues: Record<string, any>;
   resolvedReferences?: Record<string, { id: string; key: string; label: string }>;
   allAttributes?: Attribute[];
@@ -218,6 +219,29 @@ export interface Comment {
   user: { id: string; name: string; email: string };
 }
 
+// --- Native Events (pushed to /api/webhooks/onstaq) ---
+
+export type OnstaqEventType =
+  | 'item.created'
+  | 'item.updated'
+  | 'item.deleted'
+  | 'item.linked'
+  | 'item.unlinked'
+  | 'item.commented';
+
+export interface OnstaqEvent {
+  id: string;
+  type: OnstaqEventType;
+  workspaceId: string;
+  catalogId?: string;
+  occurredAt: string;
+  item: Item;
+  changes?: Record<string, { from: any; to: any }>;
+  reference?: ItemReference;
+  comment?: Comment;
+  user?: { id: string; name: string; email: string };
+}
+
 // --- Back References ---
 
 export interface BackReferences {